@@ -1,6 +1,6 @@
 import * as THREE from 'three';
-import { EventBus, CommandSystem } from '@worldlab/events';
-import { WorldGenerator } from '@worldlab/generators';
+import { EventBus, CommandSystem, EventMap } from '@worldlab/events';
+import { WorldGenerator, ChunkStreamer, ObjectInstance, getLodGrid } from '@worldlab/generators';
 // import { PhysicsWorld, CharacterController } from '@worldlab/physics';
 
 /**
@@ -12,6 +12,7 @@ export class IntegratedWorld {
   private eventBus: EventBus;
   private commandSystem: CommandSystem;
   private worldGenerator: WorldGenerator;
+  private chunkStreamer: ChunkStreamer;
   private physicsWorld: PhysicsWorld;
   private characterController: CharacterController;
 
@@ -22,7 +23,13 @@ export class IntegratedWorld {
 
   // World state
   private playerEntity = { id: 1, position: { x: 0, y: 5, z: 0 } };
-  private loadedChunks = new Map<string, any>();
+  private nextEntityId = 2;
+  private chunkMeshes = new Map<string, {
+    terrain: THREE.Mesh;
+    bodyHandle?: number;
+    objects: THREE.Mesh[];
+    objectBodyHandles: number[];
+  }>();
   private chunkSize = 64;
 
   // Performance tracking
@@ -31,17 +38,29 @@ export class IntegratedWorld {
   private fps = 0;
 
   constructor(container: HTMLElement) {
-    // Initialize event system
-    this.eventBus = EventBus.getInstance();
+    // Initialize event system (one bus per world so several can coexist).
+    // Events are queued and dispatched once per frame in update()
+    this.eventBus = new EventBus({ dispatch: 'queued' });
     this.commandSystem = new CommandSystem(this.eventBus);
 
     // Initialize generator
     this.worldGenerator = new WorldGenerator({
       seed: 'worldlab-demo-2025',
       chunkSize: this.chunkSize,
-      worldScale: 1
+      worldScale: 1,
+      biomeBlendParams: { blendWidth: 0.1, jitterStrength: 0.04 },
+      settlementParams: { regionSize: 192 }
     });
 
+    // Stream chunks around the player instead of a fixed set; distant chunks
+    // come in at half, quarter and eighth resolution
+    this.chunkStreamer = new ChunkStreamer(this.worldGenerator, {
+      loadRadius: 4,
+      unloadRadius: 5,
+      lodRadii: [1, 2, 3],
+      cacheBudgetBytes: 32 * 1024 * 1024
+    }, this.eventBus);
+
     // Initialize physics with event integration
     this.physicsWorld = new PhysicsWorld({
       gravity: { x: 0, y: -9.81, z: 0 },
@@ -126,6 +145,11 @@ export class IntegratedWorld {
       this.createChunkMesh(payload);
     });
 
+    // Chunk unloaded event
+    this.eventBus.on('chunk:unloaded', (payload) => {
+      this.removeChunkMesh(payload.chunkCoord);
+    });
+
     // Command events for feedback
     this.eventBus.on('command:executed', (payload) => {
       console.log('✅ Command executed:', payload.command.action);
@@ -158,7 +182,7 @@ export class IntegratedWorld {
         }
 
         // Create entity
-        const entityId = Math.floor(Math.random() * 10000);
+        const entityId = this.nextEntityId++;
 
         // Emit event for other systems
         this.eventBus.emit('entity:spawned', {
@@ -170,7 +194,13 @@ export class IntegratedWorld {
     });
   }
 
-  private createEntity(entityId: number, archetype: string, position: THREE.Vector3): void {
+  private createEntity(
+    entityId: number,
+    archetype: string,
+    position: { x: number; y: number; z: number },
+    rotation?: { x: number; y: number; z: number; w: number },
+    scale?: { x: number; y: number; z: number }
+  ): { mesh: THREE.Mesh; bodyHandle: number } {
     let geometry: THREE.BufferGeometry;
     let material: THREE.Material;
 
@@ -187,6 +217,14 @@ export class IntegratedWorld {
         geometry = new THREE.SphereGeometry(1, 8, 6);
         material = new THREE.MeshLambertMaterial({ color: 0x696969 });
         break;
+      case 'house':
+        geometry = new THREE.BoxGeometry(4, 3, 5);
+        material = new THREE.MeshLambertMaterial({ color: 0xc19a6b });
+        break;
+      case 'building':
+        geometry = new THREE.BoxGeometry(8, 5, 8);
+        material = new THREE.MeshLambertMaterial({ color: 0xa0522d });
+        break;
       case 'cactus':
         geometry = new THREE.CylinderGeometry(0.2, 0.3, 2, 6);
         material = new THREE.MeshLambertMaterial({ color: 0x228B22 });
@@ -198,7 +236,9 @@ export class IntegratedWorld {
     }
 
     const mesh = new THREE.Mesh(geometry, material);
-    mesh.position.copy(position);
+    mesh.position.set(position.x, position.y, position.z);
+    if (rotation) mesh.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
+    if (scale) mesh.scale.set(scale.x, scale.y, scale.z);
     mesh.castShadow = true;
     mesh.receiveShadow = true;
     mesh.userData = { entityId, archetype };
@@ -206,60 +246,125 @@ export class IntegratedWorld {
     this.scene.add(mesh);
 
     // Add physics body
-    this.physicsWorld.addBody({
+    const bodyHandle = this.physicsWorld.addBody({
       entityId,
       position,
+      rotation,
       bodyType: 'static',
       shape: { type: 'box', halfExtents: { x: 0.5, y: 0.5, z: 0.5 } },
       material: { friction: 0.7, restitution: 0.1 }
     });
 
     console.log(`🌳 Created ${archetype} entity at`, position);
+    return { mesh, bodyHandle };
   }
 
   private async generateInitialWorld(): Promise<void> {
-    // Generate a few chunks around the origin
-    const chunksToGenerate = [
-      { x: 0, z: 0 },
-      { x: 1, z: 0 },
-      { x: 0, z: 1 },
-      { x: -1, z: 0 },
-      { x: 0, z: -1 }
-    ];
-
-    for (const coord of chunksToGenerate) {
-      try {
-        const chunkData = await this.worldGenerator.generateChunk(coord);
-        this.loadedChunks.set(`${coord.x},${coord.z}`, chunkData);
-
-        // Emit event for other systems
-        this.eventBus.emit('chunk:generated', {
-          chunkCoord: coord,
-          heightmap: chunkData.heightmap,
-          biomemap: chunkData.biomemap,
-          objects: chunkData.objects
-        });
-      } catch (error) {
-        console.error('Failed to generate chunk:', coord, error);
-      }
-    }
+    // Chunks around the player are emitted as 'chunk:generated' by the streamer
+    this.chunkStreamer.setFocus(this.playerEntity.position);
+    await this.chunkStreamer.update();
   }
 
-  private createChunkMesh(chunkData: any): void {
-    const { chunkCoord, heightmap, objects } = chunkData;
+  private createChunkMesh(chunkData: EventMap['chunk:generated']): void {
+    const { chunkCoord, heightmap, biomemap, biomeWeights, roadmask, objects, densityMesh, lod = 0 } = chunkData;
 
-    // Create terrain mesh
-    this.createTerrainMesh(chunkCoord, heightmap);
+    // A chunk that changes LOD replaces the previous meshes and bodies
+    this.removeChunkMesh(chunkCoord);
+
+    // Create terrain mesh (voxel surface with caves and overhangs when available)
+    const { mesh: terrain, bodyHandle } = densityMesh
+      ? this.createDensityMesh(chunkCoord, densityMesh)
+      : this.createTerrainMesh(
+        chunkCoord,
+        heightmap,
+        this.computeBiomeColors(biomemap, biomeWeights, roadmask),
+        lod
+      );
 
     // Spawn objects
-    objects.forEach((obj: any) => {
-      this.createEntity(Math.floor(Math.random() * 10000), obj.type, obj.position);
+    const objectEntities: Array<{ mesh: THREE.Mesh; bodyHandle: number }> = objects.map((obj: ObjectInstance) =>
+      this.createEntity(this.nextEntityId++, obj.type, obj.position, obj.rotation, obj.scale)
+    );
+
+    this.chunkMeshes.set(ChunkStreamer.chunkKey(chunkCoord), {
+      terrain,
+      bodyHandle,
+      objects: objectEntities.map(entity => entity.mesh),
+      objectBodyHandles: objectEntities.map(entity => entity.bodyHandle)
     });
   }
 
-  private createTerrainMesh(chunkCoord: any, heightmap: Float32Array): void {
+  private removeChunkMesh(chunkCoord: { x: number; z: number }): void {
+    const key = ChunkStreamer.chunkKey(chunkCoord);
+    const chunkMeshes = this.chunkMeshes.get(key);
+    if (!chunkMeshes) return;
+
+    for (const mesh of [chunkMeshes.terrain, ...chunkMeshes.objects]) {
+      this.scene.remove(mesh);
+      mesh.geometry.dispose();
+      (mesh.material as THREE.Material).dispose();
+    }
+
+    if (chunkMeshes.bodyHandle !== undefined) {
+      this.physicsWorld.removeBody(chunkMeshes.bodyHandle);
+    }
+    chunkMeshes.objectBodyHandles.forEach(handle => this.physicsWorld.removeBody(handle));
+    this.chunkMeshes.delete(key);
+  }
+
+  /**
+   * Per-vertex terrain colors, blended across biome borders when weights are available
+   */
+  private computeBiomeColors(
+    biomemap: Uint8Array,
+    biomeWeights?: { k: number; ids: Uint8Array; weights: Float32Array },
+    roadmask?: Uint8Array
+  ): Float32Array {
+    const roadColor = { r: 139, g: 115, b: 85 };
+    const palette = new Map(
+      this.worldGenerator.getConfig().biomes.map(biome => [biome.id, biome.color])
+    );
+    const fallback = { r: 86, g: 125, b: 70 };
+    const colors = new Float32Array(biomemap.length * 3);
+
+    for (let i = 0; i < biomemap.length; i++) {
+      let r = 0, g = 0, b = 0;
+
+      if (biomeWeights) {
+        const { k, ids, weights } = biomeWeights;
+        for (let j = 0; j < k; j++) {
+          const color = palette.get(ids[i * k + j]) ?? fallback;
+          const weight = weights[i * k + j];
+          r += color.r * weight;
+          g += color.g * weight;
+          b += color.b * weight;
+        }
+      } else {
+        ({ r, g, b } = palette.get(biomemap[i]) ?? fallback);
+      }
+
+      if (roadmask?.[i]) {
+        ({ r, g, b } = roadColor);
+      }
+
+      colors[i * 3] = r / 255;
+      colors[i * 3 + 1] = g / 255;
+      colors[i * 3 + 2] = b / 255;
+    }
+
+    return colors;
+  }
+
+  private createTerrainMesh(
+    chunkCoord: { x: number; z: number },
+    heightmap: Float32Array,
+    colors: Float32Array,
+    lod: number
+  ): { mesh: THREE.Mesh; bodyHandle?: number } {
     const size = this.chunkSize;
-    const geometry = new THREE.PlaneGeometry(size, size, size - 1, size - 1);
+    // Reduced LODs include both edges, so the grid spans the whole chunk
+    const { step, size: gridSize } = getLodGrid(size, lod);
+    const geometry = new THREE.PlaneGeometry(size, size, gridSize - 1, gridSize - 1);
 
     // Apply heightmap to vertices
     const vertices = geometry.attributes.position.array as Float32Array;
@@ -268,11 +373,17 @@ export class IntegratedWorld {
     }
 
     geometry.attributes.position.needsUpdate = true;
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    if (lod > 0) {
+      this.addSkirts(geometry, gridSize - 1, step * 2);
+    }
     geometry.computeVertexNormals();
 
     const material = new THREE.MeshLambertMaterial({
-      color: 0x567d46,
-      wireframe: false
+      vertexColors: true,
+      wireframe: false,
+      // Skirt triangles face outwards on two sides and inwards on the others
+      side: lod > 0 ? THREE.DoubleSide : THREE.FrontSide
     });
 
     const mesh = new THREE.Mesh(geometry, material);
@@ -287,8 +398,13 @@ export class IntegratedWorld {
 
     this.scene.add(mesh);
 
+    // Only full-resolution chunks get a collider; distant ones are visual only
+    if (lod > 0) {
+      return { mesh };
+    }
+
     // Add physics collider
-    this.physicsWorld.addBody({
+    const bodyHandle = this.physicsWorld.addBody({
       entityId: -Math.abs(chunkCoord.x * 1000 + chunkCoord.z), // Negative for terrain
       position: mesh.position,
       bodyType: 'static',
@@ -301,6 +417,85 @@ export class IntegratedWorld {
       },
       material: { friction: 0.8, restitution: 0.1 }
     });
+
+    return { mesh, bodyHandle };
+  }
+
+  /**
+   * Terrain from the generator's marching-cubes mesh, with a matching trimesh collider
+   * Vertices are relative to the chunk corner and already in world units
+   */
+  private createDensityMesh(
+    chunkCoord: { x: number; z: number },
+    densityMesh: { vertices: Float32Array; indices: Uint32Array }
+  ): { mesh: THREE.Mesh; bodyHandle: number } {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(densityMesh.vertices, 3));
+    geometry.setIndex(new THREE.BufferAttribute(densityMesh.indices, 1));
+    geometry.computeVertexNormals();
+
+    const mesh = new THREE.Mesh(geometry, new THREE.MeshLambertMaterial({ color: 0x7a6a58 }));
+    mesh.position.set(chunkCoord.x * this.chunkSize, 0, chunkCoord.z * this.chunkSize);
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    mesh.userData = { chunkCoord };
+
+    this.scene.add(mesh);
+
+    const bodyHandle = this.physicsWorld.addBody({
+      entityId: -Math.abs(chunkCoord.x * 1000 + chunkCoord.z), // Negative for terrain
+      position: mesh.position,
+      bodyType: 'static',
+      shape: { type: 'trimesh', vertices: densityMesh.vertices, indices: densityMesh.indices },
+      material: { friction: 0.8, restitution: 0.1 }
+    });
+
+    return { mesh, bodyHandle };
+  }
+
+  /**
+   * Vertical strips hanging from the border of a reduced-LOD chunk, hiding
+   * the cracks where its coarser edge meets a finer neighbour
+   */
+  private addSkirts(geometry: THREE.PlaneGeometry, segments: number, depth: number): void {
+    const positions = geometry.attributes.position.array as Float32Array;
+    const colors = geometry.attributes.color.array as Float32Array;
+    const row = segments + 1;
+
+    // Border vertices in order around the plane
+    const ring: number[] = [];
+    for (let i = 0; i < segments; i++) ring.push(i);
+    for (let i = 0; i < segments; i++) ring.push(i * row + segments);
+    for (let i = segments; i > 0; i--) ring.push(segments * row + i);
+    for (let i = segments; i > 0; i--) ring.push(i * row);
+
+    // Each border vertex gets a copy (own normal) and a lowered copy
+    const base = positions.length / 3;
+    const newPositions = new Float32Array(positions.length + ring.length * 6);
+    const newColors = new Float32Array(colors.length + ring.length * 6);
+    newPositions.set(positions);
+    newColors.set(colors);
+
+    ring.forEach((vertex, i) => {
+      for (let copy = 0; copy < 2; copy++) {
+        const target = (base + i * 2 + copy) * 3;
+        newPositions[target] = positions[vertex * 3];
+        newPositions[target + 1] = positions[vertex * 3 + 1];
+        newPositions[target + 2] = positions[vertex * 3 + 2] - copy * depth;
+        newColors.set(colors.subarray(vertex * 3, vertex * 3 + 3), target);
+      }
+    });
+
+    const index = Array.from(geometry.index!.array);
+    for (let i = 0; i < ring.length; i++) {
+      const top = base + i * 2;
+      const nextTop = base + ((i + 1) % ring.length) * 2;
+      index.push(top, top + 1, nextTop, nextTop, top + 1, nextTop + 1);
+    }
+
+    geometry.setAttribute('position', new THREE.BufferAttribute(newPositions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(newColors, 3));
+    geometry.setIndex(index);
   }
 
   /**
@@ -344,6 +539,13 @@ export class IntegratedWorld {
     // Update physics
     this.physicsWorld.step(deltaTime);
 
+    // Stream chunks around the player
+    this.chunkStreamer.setFocus(this.playerEntity.position);
+    this.chunkStreamer.update();
+
+    // Dispatch this frame's events (collisions, chunks, commands) before rendering
+    this.eventBus.flush();
+
     // Update FPS
     this.frameCount++;
     if (performance.now() - this.lastTime >= 1000) {
@@ -363,7 +565,7 @@ export class IntegratedWorld {
     return {
       fps: this.fps,
       entities: this.scene.children.filter(child => child.userData?.entityId).length,
-      chunks: this.loadedChunks.size
+      chunks: this.chunkStreamer.getStats().loaded
     };
   }
 
@@ -371,7 +573,12 @@ export class IntegratedWorld {
    * Cleanup
    */
   public destroy(): void {
+    this.chunkStreamer.clear();
+    // Dispatch the queued 'chunk:unloaded' events so removeChunkMesh disposes
+    // meshes and bodies before the bus and the physics world go away
+    this.eventBus.flush();
     this.physicsWorld.destroy();
     this.renderer.dispose();
+    this.eventBus.dispose();
   }
 }
\ No newline at end of file
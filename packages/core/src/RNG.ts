@@ -1,72 +1,182 @@
+/**
+ * Serializable RNG state: enough to resume a stream exactly where it stopped
+ */
+export interface RNGState {
+  seed: number;
+  state: number;
+}
+
 /**
  * Seeded Random Number Generator for deterministic world generation
  * Based on the Mulberry32 algorithm for good distribution and speed
+ *
+ * Shared by core and the generators package so every deterministic system
+ * draws from the same PRNG. Independent consumers should take their own
+ * named sub-stream with derive('name') rather than sharing one instance.
  */
 export class RNG {
   private state: number;
   private originalSeed: number;
-  
-  constructor(seed: number) {
-    this.originalSeed = seed;
-    this.state = seed;
+
+  constructor(seed: number | string) {
+    this.originalSeed = typeof seed === 'string' ? hashString(0, seed) : seed | 0;
+    this.state = this.originalSeed;
+  }
+
+  /**
+   * Restore an RNG from a snapshot taken with getState()
+   */
+  static fromState(state: RNGState): RNG {
+    const rng = new RNG(state.seed);
+    rng.setState(state);
+    return rng;
   }
-  
+
   /**
    * Generate next random number between 0 and 1
    */
   random(): number {
-    let t = this.state += 0x6D2B79F5;
+    let t = this.state = (this.state + 0x6D2B79F5) | 0;
     t = Math.imul(t ^ t >>> 15, t | 1);
     t ^= t + Math.imul(t ^ t >>> 7, t | 61);
     return ((t ^ t >>> 14) >>> 0) / 4294967296;
   }
-  
+
   /**
    * Generate random integer between min (inclusive) and max (exclusive)
    */
   randomInt(min: number, max: number): number {
     return Math.floor(this.random() * (max - min)) + min;
   }
-  
+
   /**
    * Generate random float between min and max
    */
   randomFloat(min: number, max: number): number {
     return this.random() * (max - min) + min;
   }
-  
+
   /**
    * Random boolean with optional probability
    */
   randomBool(probability: number = 0.5): boolean {
     return this.random() < probability;
   }
-  
+
   /**
    * Pick random element from array
    */
   randomChoice<T>(array: T[]): T {
     return array[this.randomInt(0, array.length)];
   }
-  
+
+  /**
+   * Normally distributed number (Box-Muller)
+   * Always consumes exactly two draws, so the stream position stays predictable
+   */
+  gaussian(mean: number = 0, stdDev: number = 1): number {
+    const u = 1 - this.random(); // (0, 1], avoids log(0)
+    const v = this.random();
+    return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Pick an element with probability proportional to its weight
+   */
+  weightedChoice<T>(items: T[], weights: number[]): T {
+    if (items.length === 0 || items.length !== weights.length) {
+      throw new Error('weightedChoice needs one weight per item');
+    }
+
+    const total = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+    let roll = this.random() * total;
+    for (let i = 0; i < items.length; i++) {
+      roll -= Math.max(0, weights[i]);
+      if (roll < 0) return items[i];
+    }
+    return items[items.length - 1];
+  }
+
+  /**
+   * Shuffle an array in place (Fisher-Yates) and return it
+   */
+  shuffle<T>(array: T[]): T[] {
+    for (let i = array.length - 1; i > 0; i--) {
+      const j = this.randomInt(0, i + 1);
+      [array[i], array[j]] = [array[j], array[i]];
+    }
+    return array;
+  }
+
+  /**
+   * Adapter for APIs that expect a plain `() => number` PRNG (noise, generators)
+   */
+  toFunction(): () => number {
+    return () => this.random();
+  }
+
   /**
    * Reset RNG to original seed
    */
   reset(): void {
     this.state = this.originalSeed;
   }
-  
+
   /**
    * Get current seed
    */
   getSeed(): number {
     return this.originalSeed;
   }
-  
+
+  /**
+   * Snapshot the stream position (JSON-serializable)
+   */
+  getState(): RNGState {
+    return { seed: this.originalSeed, state: this.state };
+  }
+
+  /**
+   * Resume from a snapshot taken with getState()
+   */
+  setState(state: RNGState): void {
+    this.originalSeed = state.seed | 0;
+    this.state = state.state | 0;
+  }
+
+  /**
+   * Create a new RNG with a derived seed (original seed + offset)
+   */
+  derive(offset: number): RNG;
   /**
-   * Create a new RNG with a derived seed
+   * Create an independent named sub-stream, e.g. derive('objects')
+   * Depends only on the original seed and the name, never on how many
+   * numbers this RNG has drawn, so sub-streams are stable across refactors
    */
-  derive(offset: number): RNG {
-    return new RNG(this.originalSeed + offset);
+  derive(name: string): RNG;
+  derive(stream: number | string): RNG {
+    return typeof stream === 'number'
+      ? new RNG(this.originalSeed + stream)
+      : new RNG(hashString(this.originalSeed, stream));
+  }
+}
+
+/**
+ * MurmurHash3-style 32-bit hash of a string, keyed by a seed
+ */
+function hashString(seed: number, str: string): number {
+  let hash = seed ^ str.length;
+  for (let i = 0; i < str.length; i++) {
+    let k = Math.imul(str.charCodeAt(i), 0xcc9e2d51);
+    k = (k << 15) | (k >>> 17);
+    hash ^= Math.imul(k, 0x1b873593);
+    hash = (hash << 13) | (hash >>> 19);
+    hash = (Math.imul(hash, 5) + 0xe6546b64) | 0;
   }
-}
\ No newline at end of file
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash | 0;
+}
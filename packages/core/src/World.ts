@@ -2,9 +2,9 @@
  * Core World interface and state management
  */
 
-import { EntityManager } from './Entity';
-import { RNG } from './RNG';
-import { Timeline } from './Timeline';
+import { EntityManager } from './Entity.js';
+import { RNG } from './RNG.js';
+import { Timeline } from './Timeline.js';
 
 export interface WorldConfig {
   seed: number;
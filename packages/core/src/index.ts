@@ -1,5 +1,5 @@
 // Core WorldLab interfaces and utilities
-export * from './World';
-export * from './Entity';
-export * from './RNG';
-export * from './Timeline';
\ No newline at end of file
+export * from './World.js';
+export * from './Entity.js';
+export * from './RNG.js';
+export * from './Timeline.js';
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { EventBus } from './EventBus';
-import { ValidationChainFactory } from './validation/ValidationChain';
+import { ValidationChainFactory } from './validation/ValidationChainFactory';
 import {
   Command,
   CommandHandler,
@@ -20,6 +20,7 @@ export class CommandSystem {
   private commandRegistry = new Map<string, CommandHandler>();
   private commandHistory: CommandRecord[] = [];
 
+  // Without a bus, commands go through the shared EventBus.getInstance()
   constructor(eventBus?: EventBus) {
     this.eventBus = eventBus || EventBus.getInstance();
     this.registerDefaultHandlers();
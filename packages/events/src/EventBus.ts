@@ -1,114 +1,487 @@
-import { EventMap, EventKey, EventHandler, EventRecord } from './types';
+import {
+  EventMap,
+  EventKey,
+  EventHandler,
+  EventPattern,
+  EventRecord,
+  HandlerFailure,
+  SubscribeOptions
+} from './types';
+import { EventPayloadError, PayloadSchema, validatePayload } from './EventSchema';
+
+export interface EventBusOptions {
+  parent?: EventBus; // every event emitted here is re-emitted on the parent
+  maxHistory?: number; // event history size limit (default 10,000)
+  // 'immediate' (default): emit runs the handlers before returning
+  // 'queued': emit only buffers the event; flush() dispatches the buffer
+  dispatch?: 'immediate' | 'queued';
+  maxEventsPerFlush?: number; // queued mode: the rest waits for the next flush (default 1,000)
+  maxCascadeDepth?: number; // queued mode: longest chain of events emitted by handlers (default 16)
+  // queued mode: called when an event is dropped for exceeding maxCascadeDepth
+  // (also listed in FlushResult.dropped)
+  onCascadeLimit?: (dropped: FlushResult['dropped'][number]) => void;
+}
+
+/**
+ * Outcome of EventBus.flush()
+ * dropped lists events discarded for exceeding maxCascadeDepth, with the event
+ * types that led to them
+ */
+export interface FlushResult {
+  dispatched: number;
+  remaining: number;
+  dropped: Array<{ eventType: EventKey; chain: EventKey[] }>;
+}
+
+export interface EmitOptions {
+  causedBy?: string;
+  source?: string;
+  traceId?: string;
+}
+
+export interface EmitAsyncOptions extends EmitOptions {
+  // 'serial' (default): each handler is awaited before the next one starts
+  // 'parallel': all handlers start in priority order and are awaited together
+  mode?: 'serial' | 'parallel';
+  timeoutMs?: number; // per handler; a handler that takes longer counts as failed
+}
+
+/**
+ * Outcome of EventBus.emitAsync(), including failures of the parent buses' handlers
+ */
+export interface EmitAsyncResult {
+  eventId: string;
+  failures: HandlerFailure[];
+}
+
+interface QueuedEvent {
+  record: EventRecord;
+  chain: EventKey[]; // types of the events whose handlers emitted this one, oldest first
+}
+
+interface Subscription {
+  pattern: EventPattern;
+  handler: EventHandler<EventPattern>;
+  priority: number;
+  once: boolean;
+  filter?: (payload: EventMap[EventKey], eventType: EventKey) => boolean;
+  name: string;
+  order: number; // subscription order, breaks priority ties
+  active: boolean; // false once removed, even during a dispatch in progress
+}
+
+class HandlerTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Handler timed out after ${timeoutMs}ms`);
+    this.name = 'HandlerTimeoutError';
+  }
+}
 
 /**
  * High-performance, strongly-typed EventBus based on investigation
- * Implements Singleton pattern with TypeScript generics for type safety
+ * Each instance has its own listeners and history, so several worlds can run
+ * in one process; child buses forward their events to a parent
  */
 export class EventBus {
   private static instance: EventBus;
-  private listeners: { [K in EventKey]?: Array<EventHandler<K>> } = {};
+  private listeners = new Map<EventPattern, Subscription[]>();
+  private subscriptionCounter = 0;
   private eventHistory: EventRecord[] = [];
   private traceIdCounter = 0;
+  private parent?: EventBus;
+  private children = new Set<EventBus>();
+  private schemas = new Map<EventKey, PayloadSchema>();
+  private maxHistory: number;
+  private disposed = false;
 
-  private constructor() {}
+  private queued: boolean;
+  private maxEventsPerFlush: number;
+  private maxCascadeDepth: number;
+  private queue: QueuedEvent[] = [];
+  private dispatching: QueuedEvent | null = null;
+  private dropped: FlushResult['dropped'] = [];
+  private onCascadeLimit?: EventBusOptions['onCascadeLimit'];
+
+  constructor(options: EventBusOptions = {}) {
+    this.maxHistory = options.maxHistory ?? 10000;
+    this.queued = options.dispatch === 'queued';
+    this.maxEventsPerFlush = options.maxEventsPerFlush ?? 1000;
+    this.maxCascadeDepth = options.maxCascadeDepth ?? 16;
+    this.onCascadeLimit = options.onCascadeLimit;
+    if (options.parent) {
+      if (options.parent.disposed) {
+        throw new Error('Cannot create a child of a disposed EventBus');
+      }
+      this.parent = options.parent;
+      this.parent.children.add(this);
+    }
+  }
 
+  /**
+   * Process-wide default bus, for code that does not receive one explicitly
+   */
   public static getInstance(): EventBus {
-    if (!EventBus.instance) {
+    if (!EventBus.instance || EventBus.instance.disposed) {
       EventBus.instance = new EventBus();
     }
     return EventBus.instance;
   }
 
   /**
-   * Subscribe to an event with automatic unsubscribe function
+   * Scoped bus whose events also reach this one (e.g. one per world or agent)
+   * Listeners on the child only see the child's events
+   */
+  public createChild(options: Omit<EventBusOptions, 'parent'> = {}): EventBus {
+    return new EventBus({ ...options, parent: this });
+  }
+
+  /**
+   * Drop all listeners and history, stop forwarding to the parent and dispose
+   * child buses. Later emits are ignored; subscribing throws.
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    this.children.forEach(child => child.dispose());
+    this.children.clear();
+    this.parent?.children.delete(this);
+    this.parent = undefined;
+
+    this.listeners.forEach(subscriptions => subscriptions.forEach(s => { s.active = false; }));
+    this.listeners.clear();
+    this.schemas.clear();
+    this.eventHistory = [];
+    this.queue = [];
+  }
+
+  public isDisposed(): boolean {
+    return this.disposed;
+  }
+
+  /**
+   * Validate the payloads of an event at emit time
+   * The schema also applies to emits on child buses
+   */
+  public registerEvent<K extends EventKey>(eventType: K, schema: PayloadSchema): void {
+    if (this.schemas.has(eventType)) {
+      throw new Error(`Event "${eventType}" is already registered`);
+    }
+    this.schemas.set(eventType, schema);
+  }
+
+  public unregisterEvent<K extends EventKey>(eventType: K): void {
+    this.schemas.delete(eventType);
+  }
+
+  /**
+   * Schema for an event on this bus or its nearest ancestor, if any
+   */
+  public getEventSchema<K extends EventKey>(eventType: K): PayloadSchema | undefined {
+    return this.schemas.get(eventType) ?? this.parent?.getEventSchema(eventType);
+  }
+
+  /**
+   * Subscribe to an event, a namespace ('collision:*') or every event ('*')
    * Returns unsubscribe function to prevent memory leaks
    */
-  public on<K extends EventKey>(
-    eventType: K,
-    handler: EventHandler<K>
+  public on<P extends EventPattern>(
+    pattern: P,
+    handler: EventHandler<P>,
+    options: SubscribeOptions<P> = {}
   ): () => void {
-    if (!this.listeners[eventType]) {
-      this.listeners[eventType] = [];
+    if (this.disposed) {
+      throw new Error(`Cannot subscribe to "${pattern}" on a disposed EventBus`);
     }
-    this.listeners[eventType]!.push(handler);
+
+    const subscription: Subscription = {
+      pattern,
+      handler: handler as EventHandler<EventPattern>,
+      priority: options.priority ?? 0,
+      once: options.once ?? false,
+      filter: options.filter as Subscription['filter'],
+      name: options.name || handler.name || 'anonymous',
+      order: this.subscriptionCounter++,
+      active: true
+    };
+
+    // Keep each list sorted by priority; equal priorities stay in subscription order
+    const subscriptions = this.listeners.get(pattern) ?? [];
+    const index = subscriptions.findIndex(existing => existing.priority < subscription.priority);
+    subscriptions.splice(index === -1 ? subscriptions.length : index, 0, subscription);
+    this.listeners.set(pattern, subscriptions);
 
     // Return unsubscribe function to prevent memory leaks
     return () => {
-      this.off(eventType, handler);
+      this.removeSubscription(pattern, subscription);
     };
   }
 
   /**
-   * Unsubscribe from an event
+   * Subscribe for a single event (the first one that passes the filter, if any)
    */
-  public off<K extends EventKey>(
-    eventType: K,
-    handler: EventHandler<K>
+  public once<P extends EventPattern>(
+    pattern: P,
+    handler: EventHandler<P>,
+    options: Omit<SubscribeOptions<P>, 'once'> = {}
+  ): () => void {
+    return this.on(pattern, handler, { ...options, once: true });
+  }
+
+  /**
+   * Unsubscribe a handler from the pattern it was registered with
+   */
+  public off<P extends EventPattern>(
+    pattern: P,
+    handler: EventHandler<P>
   ): void {
-    const eventListeners = this.listeners[eventType];
-    if (eventListeners) {
-      const index = eventListeners.indexOf(handler);
-      if (index !== -1) {
-        eventListeners.splice(index, 1);
-      }
+    const subscription = this.listeners.get(pattern)?.find(existing => existing.handler === handler);
+    if (subscription) {
+      this.removeSubscription(pattern, subscription);
     }
   }
 
   /**
    * Emit an event with optional causality tracking
+   * Throws EventPayloadError if the payload does not match a registered schema
+   *
+   * In queued mode the event is recorded now and dispatched by flush(); events
+   * emitted by handlers during a flush are caused by (and share the trace of)
+   * the event being handled
    */
   public emit<K extends EventKey>(
     eventType: K,
     payload: EventMap[K],
-    options?: {
-      causedBy?: string;
-      source?: string;
-      traceId?: string;
-    }
+    options?: EmitOptions
   ): string {
     const eventId = this.generateEventId();
-    const timestamp = performance.now();
+    // Late emits from work still in flight when the bus was disposed
+    if (this.disposed) return eventId;
+    const eventRecord = this.createRecord(eventId, eventType, payload, options);
+
+    if (this.queued) {
+      const chain = this.dispatching ? [...this.dispatching.chain, this.dispatching.record.eventType] : [];
+      // Handlers that keep re-emitting (directly or through other events) would
+      // otherwise never let the queue drain
+      if (chain.length >= this.maxCascadeDepth) {
+        const dropped = { eventType, chain };
+        this.dropped.push(dropped);
+        this.onCascadeLimit?.(dropped);
+        return eventId;
+      }
+      this.recordHistory(eventRecord);
+      this.queue.push({ record: eventRecord, chain });
+      return eventId;
+    }
+
+    this.recordHistory(eventRecord);
+    this.dispatch(eventRecord);
+    return eventId;
+  }
+
+  /**
+   * Emit an event and wait for its handlers, including asynchronous ones
+   * Runs right away even in queued mode. Handlers that throw, reject or exceed
+   * timeoutMs don't stop the others: they are reported together in one
+   * 'event:handler-error' event and in the returned failures
+   */
+  public async emitAsync<K extends EventKey>(
+    eventType: K,
+    payload: EventMap[K],
+    options: EmitAsyncOptions = {}
+  ): Promise<EmitAsyncResult> {
+    const eventId = this.generateEventId();
+    if (this.disposed) return { eventId, failures: [] };
+    const eventRecord = this.createRecord(eventId, eventType, payload, options);
+    this.recordHistory(eventRecord);
+
+    const { mode = 'serial', timeoutMs } = options;
+    const run = async (subscription: Subscription): Promise<HandlerFailure | null> => {
+      if (!subscription.active) return null;
+      try {
+        if (subscription.filter && !subscription.filter(payload, eventType)) return null;
+        if (subscription.once) this.removeSubscription(subscription.pattern, subscription);
+        await EventBus.withTimeout(subscription.handler(payload, eventType), timeoutMs);
+        return null;
+      } catch (error) {
+        return EventBus.toFailure(subscription, error);
+      }
+    };
+
+    const subscriptions = this.getSubscriptions(eventType);
+    const results: Array<HandlerFailure | null> = [];
+    if (mode === 'parallel') {
+      results.push(...await Promise.all(subscriptions.map(run)));
+    } else {
+      for (const subscription of subscriptions) {
+        results.push(await run(subscription));
+      }
+    }
+
+    const failures = results.filter((failure): failure is HandlerFailure => failure !== null);
+    this.reportFailures(eventRecord, failures);
+
+    // The parent reports its own failures; the caller gets all of them (in a new
+    // array: the reported one is part of the 'event:handler-error' payload)
+    if (this.parent) {
+      const forwarded = await this.parent.emitAsync(eventType, payload, {
+        mode,
+        timeoutMs,
+        causedBy: eventId,
+        source: eventRecord.metadata!.source,
+        traceId: eventRecord.metadata!.traceId
+      });
+      return { eventId, failures: [...failures, ...forwarded.failures] };
+    }
+
+    return { eventId, failures };
+  }
+
+  /**
+   * Dispatch queued events in emission order, including those emitted by
+   * handlers during the flush, up to maxEventsPerFlush
+   * Call once per frame at a fixed point (e.g. after the physics step)
+   */
+  public flush(): FlushResult {
+    if (this.dispatching) {
+      throw new Error('EventBus.flush() cannot be called from an event handler');
+    }
+
+    this.dropped = [];
+    let dispatched = 0;
+    try {
+      while (this.queue.length > 0 && dispatched < this.maxEventsPerFlush) {
+        this.dispatching = this.queue.shift()!;
+        this.dispatch(this.dispatching.record);
+        dispatched++;
+      }
+    } finally {
+      this.dispatching = null;
+    }
+
+    return { dispatched, remaining: this.queue.length, dropped: this.dropped };
+  }
+
+  /**
+   * Events waiting for the next flush (always 0 in immediate mode)
+   */
+  public getQueueSize(): number {
+    return this.queue.length;
+  }
+
+  private recordHistory(eventRecord: EventRecord): void {
+    // Store in event history (with size limit)
+    this.eventHistory.push(eventRecord);
+    if (this.eventHistory.length > this.maxHistory) {
+      this.eventHistory.shift(); // Remove oldest event
+    }
+  }
+
+  private createRecord<K extends EventKey>(
+    eventId: string,
+    eventType: K,
+    payload: EventMap[K],
+    options?: EmitOptions
+  ): EventRecord {
+    const schema = this.getEventSchema(eventType);
+    if (schema) {
+      const errors = validatePayload(schema, payload);
+      if (errors.length > 0) {
+        throw new EventPayloadError(eventType, errors);
+      }
+    }
+
+    const cause = this.dispatching?.record;
 
     // Create event record for Event Sourcing
-    const eventRecord: EventRecord = {
+    return {
       eventId,
       eventType,
       payload,
-      timestamp,
-      causedBy: options?.causedBy,
+      timestamp: performance.now(),
+      causedBy: options?.causedBy ?? cause?.eventId,
       metadata: {
         source: options?.source || 'unknown',
-        traceId: options?.traceId || this.generateTraceId()
+        traceId: options?.traceId || cause?.metadata?.traceId || this.generateTraceId()
       }
     };
+  }
 
-    // Store in event history (with size limit)
-    this.eventHistory.push(eventRecord);
-    if (this.eventHistory.length > 10000) {
-      this.eventHistory.shift(); // Remove oldest event
-    }
+  private dispatch(eventRecord: EventRecord): void {
+    const { eventId, eventType, payload, timestamp } = eventRecord;
 
-    // Dispatch to listeners
-    const eventListeners = this.listeners[eventType];
-    if (eventListeners && eventListeners.length > 0) {
-      // Iterate over copy to avoid issues if handler unsubscribes itself
-      [...eventListeners].forEach(handler => {
-        try {
-          handler(payload);
-        } catch (error) {
-          console.error(`Error in event handler for ${eventType}:`, error);
-          // Emit error event
-          this.emit('command:failed', {
-            commandId: eventId,
-            command: { action: 'event_handler_error' },
-            error: error instanceof Error ? error.message : String(error),
-            timestamp
-          });
+    // Dispatch to exact, namespace and global subscriptions in priority order
+    // (the merged list is a copy, so handlers may unsubscribe themselves)
+    this.getSubscriptions(eventType).forEach(subscription => {
+      if (!subscription.active) return;
+      try {
+        if (subscription.filter && !subscription.filter(payload, eventType)) return;
+        if (subscription.once) this.removeSubscription(subscription.pattern, subscription);
+        const result = subscription.handler(payload, eventType);
+        // emit doesn't wait for async handlers, but their rejections are still reported
+        if (result instanceof Promise) {
+          result.catch(error => this.reportFailures(eventRecord, [EventBus.toFailure(subscription, error)]));
         }
-      });
-    }
+      } catch (error) {
+        console.error(`Error in event handler for ${eventType}:`, error);
+        // Emit error event (not for failures while handling one, which could loop
+        // forever with a '*' handler that always throws)
+        if (eventType === 'command:failed') return;
+        this.emit('command:failed', {
+          commandId: eventId,
+          command: { action: 'event_handler_error' },
+          error: error instanceof Error ? error.message : String(error),
+          timestamp
+        });
+      }
+    });
 
-    return eventId;
+    // Forward to the parent bus, linked to this event for causality tracking
+    this.parent?.emit(eventType, payload, {
+      causedBy: eventId,
+      source: eventRecord.metadata!.source,
+      traceId: eventRecord.metadata!.traceId
+    });
+  }
+
+  /**
+   * Emit 'event:handler-error' for failed handlers of an event (not for
+   * failures while handling one, which could loop like 'command:failed')
+   */
+  private reportFailures(eventRecord: EventRecord, failures: HandlerFailure[]): void {
+    if (failures.length === 0 || this.disposed) return;
+    failures.forEach(failure => {
+      console.error(`Error in event handler "${failure.handler}" for ${eventRecord.eventType}:`, failure.error);
+    });
+    if (eventRecord.eventType === 'event:handler-error') return;
+    this.emit('event:handler-error', {
+      eventId: eventRecord.eventId,
+      eventType: eventRecord.eventType,
+      failures
+    }, {
+      causedBy: eventRecord.eventId,
+      traceId: eventRecord.metadata?.traceId
+    });
+  }
+
+  private static toFailure(subscription: Subscription, error: unknown): HandlerFailure {
+    return {
+      handler: subscription.name,
+      pattern: subscription.pattern,
+      error: error instanceof Error ? error.message : String(error),
+      timedOut: error instanceof HandlerTimeoutError
+    };
+  }
+
+  private static withTimeout(result: void | Promise<void>, timeoutMs?: number): Promise<void> {
+    const promise = Promise.resolve(result);
+    if (timeoutMs === undefined) return promise;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new HandlerTimeoutError(timeoutMs)), timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
   }
 
   /**
@@ -135,17 +508,42 @@ export class EventBus {
   }
 
   /**
-   * Get current listener count for debugging
+   * Get current listener count for debugging (subscriptions to exactly this pattern)
    */
-  public getListenerCount<K extends EventKey>(eventType: K): number {
-    return this.listeners[eventType]?.length || 0;
+  public getListenerCount<P extends EventPattern>(pattern: P): number {
+    return this.listeners.get(pattern)?.length || 0;
   }
 
   /**
-   * Get all registered event types
+   * Get all patterns with at least one subscription
    */
-  public getRegisteredEvents(): EventKey[] {
-    return Object.keys(this.listeners) as EventKey[];
+  public getRegisteredEvents(): EventPattern[] {
+    return [...this.listeners.keys()];
+  }
+
+  /**
+   * Subscriptions that receive an event, highest priority first and in
+   * subscription order within the same priority
+   */
+  private getSubscriptions(eventType: EventKey): Subscription[] {
+    const separator = eventType.indexOf(':');
+    const patterns = separator === -1
+      ? [eventType, '*']
+      : [eventType, `${eventType.slice(0, separator)}:*`, '*'];
+
+    return patterns
+      .flatMap(pattern => this.listeners.get(pattern as EventPattern) ?? [])
+      .sort((a, b) => b.priority - a.priority || a.order - b.order);
+  }
+
+  private removeSubscription(pattern: EventPattern, subscription: Subscription): void {
+    subscription.active = false;
+    const subscriptions = this.listeners.get(pattern);
+    if (!subscriptions) return;
+
+    const index = subscriptions.indexOf(subscription);
+    if (index !== -1) subscriptions.splice(index, 1);
+    if (subscriptions.length === 0) this.listeners.delete(pattern);
   }
 
   private generateEventId(): string {
@@ -170,4 +568,4 @@ export class EventBus {
       })
     );
   }
-}
\ No newline at end of file
+}
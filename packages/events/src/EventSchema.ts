@@ -0,0 +1,92 @@
+import { EventKey, ValidationError } from './types';
+
+/**
+ * Lightweight payload schema checked by EventBus.emit for registered events
+ *
+ * - 'string' | 'number' | 'boolean' | 'any' for primitives
+ * - { type: 'object', properties, optional? } for nested payloads
+ * - { type: 'array', items } and { type: 'enum', values }
+ * - a predicate for anything else (typed arrays, class instances...)
+ */
+export type PayloadSchema =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'any'
+  | { type: 'object'; properties: Record<string, PayloadSchema>; optional?: string[] }
+  | { type: 'array'; items: PayloadSchema }
+  | { type: 'enum'; values: ReadonlyArray<string | number> }
+  | ((value: unknown) => boolean);
+
+/**
+ * Thrown by EventBus.emit when a payload does not match its registered schema
+ */
+export class EventPayloadError extends Error {
+  constructor(
+    public readonly eventType: EventKey,
+    public readonly errors: ValidationError[]
+  ) {
+    super(
+      `Invalid payload for "${eventType}":\n` +
+      errors.map(error => `  ${error.field}: ${error.message}`).join('\n')
+    );
+    this.name = 'EventPayloadError';
+  }
+}
+
+/**
+ * Check a value against a schema, returning every mismatch (empty when valid)
+ */
+export function validatePayload(
+  schema: PayloadSchema,
+  value: unknown,
+  field: string = 'payload'
+): ValidationError[] {
+  const fail = (message: string, path: string = field): ValidationError[] => [
+    { code: 'INVALID_PAYLOAD', message, field: path, severity: 'error' }
+  ];
+
+  if (typeof schema === 'function') {
+    return schema(value) ? [] : fail('rejected by custom check');
+  }
+
+  switch (schema) {
+    case 'any':
+      return [];
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value) ? [] : fail(`expected number, got ${describe(value)}`);
+    case 'string':
+    case 'boolean':
+      return typeof value === schema ? [] : fail(`expected ${schema}, got ${describe(value)}`);
+  }
+
+  switch (schema.type) {
+    case 'enum':
+      return schema.values.includes(value as string | number)
+        ? []
+        : fail(`expected one of ${schema.values.map(v => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value) ?? describe(value)}`);
+
+    case 'array':
+      if (!Array.isArray(value)) return fail(`expected array, got ${describe(value)}`);
+      return value.flatMap((item, i) => validatePayload(schema.items, item, `${field}[${i}]`));
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(`expected object, got ${describe(value)}`);
+      }
+      const record = value as Record<string, unknown>;
+      return Object.entries(schema.properties).flatMap(([key, propertySchema]) => {
+        if (record[key] === undefined) {
+          return schema.optional?.includes(key) ? [] : fail('is required', `${field}.${key}`);
+        }
+        return validatePayload(propertySchema, record[key], `${field}.${key}`);
+      });
+    }
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
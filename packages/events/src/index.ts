@@ -1,4 +1,5 @@
 // Re-export main components
 export * from './EventBus';
+export * from './EventSchema';
 export * from './CommandSystem';
 export * from './types';
\ No newline at end of file
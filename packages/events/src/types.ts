@@ -1,6 +1,16 @@
 // Core event system types based on investigation
 
 // Event payload definitions with strong typing
+// Game code adds its own events through declaration merging:
+//
+//   declare module '@worldlab/events' {
+//     interface EventMap {
+//       'weather:changed': { from: string; to: string };
+//     }
+//   }
+//
+// and can register a PayloadSchema for them (EventBus.registerEvent) to
+// validate payloads at emit time as well
 export interface EventMap {
   // Physics events
   'collision:enter': {
@@ -29,7 +39,11 @@ export interface EventMap {
     chunkCoord: { x: number; z: number };
     heightmap: Float32Array;
     biomemap: Uint8Array;
+    biomeWeights?: { k: number; ids: Uint8Array; weights: Float32Array };
+    roadmask?: Uint8Array;
     objects: any[];
+    lod?: number; // 0 = full resolution; n > 0 samples every 2^n cells, edges included
+    densityMesh?: { vertices: Float32Array; indices: Uint32Array }; // only with 3D density enabled
   };
   'chunk:unloaded': {
     chunkCoord: { x: number; z: number };
@@ -60,10 +74,47 @@ export interface EventMap {
     error: string;
     timestamp: number;
   };
+
+  // Handlers of one event that threw, rejected or timed out (see EventBus.emitAsync)
+  'event:handler-error': {
+    eventId: string;
+    eventType: EventKey;
+    failures: HandlerFailure[];
+  };
 }
 
 export type EventKey = keyof EventMap;
-export type EventHandler<K extends EventKey> = (payload: EventMap[K]) => void;
+
+type NamespaceOf<K> = K extends `${infer N}:${string}` ? N : never;
+export type EventNamespace = NamespaceOf<EventKey>; // 'collision', 'entity', ...
+
+// An exact event, every event in a namespace ('collision:*') or every event ('*')
+export type EventPattern = EventKey | `${EventNamespace}:*` | '*';
+
+export type EventsMatching<P extends EventPattern> =
+  P extends '*' ? EventKey
+  : P extends `${infer N}:*` ? Extract<EventKey, `${N}:${string}`>
+  : Extract<P, EventKey>;
+
+// eventType tells wildcard handlers which event they received
+export type EventHandler<P extends EventPattern> = (
+  payload: EventMap[EventsMatching<P>],
+  eventType: EventsMatching<P>
+) => void | Promise<void>;
+
+export interface SubscribeOptions<P extends EventPattern = EventPattern> {
+  priority?: number; // higher runs first; equal priorities run in subscription order (default 0)
+  once?: boolean; // unsubscribe after the first event that reaches the handler
+  filter?: (payload: EventMap[EventsMatching<P>], eventType: EventsMatching<P>) => boolean; // rejected events don't consume once
+  name?: string; // reported in 'event:handler-error' (default: the handler function's name)
+}
+
+export interface HandlerFailure {
+  handler: string; // SubscribeOptions.name, the function name or 'anonymous'
+  pattern: EventPattern; // pattern the handler subscribed with
+  error: string;
+  timedOut: boolean;
+}
 
 // Command system types based on JSON DSL investigation
 export interface Command {
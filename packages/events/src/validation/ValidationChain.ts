@@ -41,39 +41,3 @@ export abstract class BaseValidator implements CommandValidator {
 
   protected abstract doValidation(command: Command, context?: GameContext): ValidationResult;
 }
-
-/**
- * Factory for creating validation chains
- */
-import { SpatialValidator } from './SpatialValidator';
-import { ResourceValidator } from './ResourceValidator';
-import { CoherenceValidator } from './CoherenceValidator';
-
-export class ValidationChainFactory {
-  public static createDefaultChain(): BaseValidator {
-
-    const spatialValidator = new SpatialValidator();
-    const resourceValidator = new ResourceValidator();
-    const coherenceValidator = new CoherenceValidator();
-
-    // Chain: Spatial → Resource → Coherence
-    spatialValidator
-      .setNext(resourceValidator)
-      .setNext(coherenceValidator);
-
-    return spatialValidator;
-  }
-
-  public static createCustomChain(validators: BaseValidator[]): BaseValidator | null {
-    if (validators.length === 0) return null;
-
-    const [first, ...rest] = validators;
-    let current = first;
-
-    for (const validator of rest) {
-      current = current.setNext(validator);
-    }
-
-    return first;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { BaseValidator } from './ValidationChain';
+import { SpatialValidator } from './SpatialValidator';
+import { ResourceValidator } from './ResourceValidator';
+import { CoherenceValidator } from './CoherenceValidator';
+
+/**
+ * Factory for creating validation chains
+ * Kept apart from BaseValidator: the validators extend it, so importing them
+ * from ValidationChain.ts made a cycle that left BaseValidator undefined
+ */
+export class ValidationChainFactory {
+  public static createDefaultChain(): BaseValidator {
+
+    const spatialValidator = new SpatialValidator();
+    const resourceValidator = new ResourceValidator();
+    const coherenceValidator = new CoherenceValidator();
+
+    // Chain: Spatial → Resource → Coherence
+    spatialValidator
+      .setNext(resourceValidator)
+      .setNext(coherenceValidator);
+
+    return spatialValidator;
+  }
+
+  public static createCustomChain(validators: BaseValidator[]): BaseValidator | null {
+    if (validators.length === 0) return null;
+
+    const [first, ...rest] = validators;
+    let current = first;
+
+    for (const validator of rest) {
+      current = current.setNext(validator);
+    }
+
+    return first;
+  }
+}
@@ -2,4 +2,5 @@
 export * from './SpatialValidator';
 export * from './ResourceValidator';
 export * from './CoherenceValidator';
-export * from './ValidationChain';
\ No newline at end of file
+export * from './ValidationChain';
+export * from './ValidationChainFactory';
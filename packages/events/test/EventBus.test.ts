@@ -0,0 +1,361 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EventBus } from '../src/EventBus';
+import { EventPayloadError, PayloadSchema, validatePayload } from '../src/EventSchema';
+import { EventMap } from '../src/types';
+
+const position = { x: 1, y: 2, z: 3 };
+
+describe('EventBus instances', () => {
+  it('keeps listeners and history separate per bus', () => {
+    const a = new EventBus();
+    const b = new EventBus();
+    const received: string[] = [];
+    a.on('entity:destroyed', () => { received.push('a'); });
+    b.on('entity:destroyed', () => { received.push('b'); });
+
+    a.emit('entity:destroyed', { entityId: 1 });
+
+    expect(received).toEqual(['a']);
+    expect(a.getEventHistory()).toHaveLength(1);
+    expect(b.getEventHistory()).toHaveLength(0);
+  });
+
+  it('forwards child events to the parent, linked to the original event', () => {
+    const parent = new EventBus();
+    const child = parent.createChild();
+    const sibling = parent.createChild();
+    const received: string[] = [];
+    parent.on('entity:spawned', () => { received.push('parent'); });
+    child.on('entity:spawned', () => { received.push('child'); });
+    sibling.on('entity:spawned', () => { received.push('sibling'); });
+
+    const eventId = child.emit('entity:spawned', { entityId: 1, archetype: 'tree', position }, { source: 'world-1' });
+
+    expect(received).toEqual(['child', 'parent']);
+    const [forwarded] = parent.getEventHistory();
+    expect(forwarded.causedBy).toBe(eventId);
+    expect(forwarded.metadata?.source).toBe('world-1');
+    expect(forwarded.metadata?.traceId).toBe(child.getEventHistory()[0].metadata?.traceId);
+
+    // Parent events don't reach the children
+    parent.emit('entity:spawned', { entityId: 2, archetype: 'tree', position });
+    expect(received).toEqual(['child', 'parent', 'parent']);
+  });
+
+  it('disposes a bus together with its children and stops forwarding', () => {
+    const parent = new EventBus();
+    const child = parent.createChild();
+    const grandchild = child.createChild();
+    let parentCount = 0;
+    let childCount = 0;
+    parent.on('entity:destroyed', () => { parentCount++; });
+    child.on('entity:destroyed', () => { childCount++; });
+
+    child.dispose();
+
+    expect(child.isDisposed()).toBe(true);
+    expect(grandchild.isDisposed()).toBe(true);
+    expect(parent.isDisposed()).toBe(false);
+    expect(child.getListenerCount('entity:destroyed')).toBe(0);
+    expect(child.getEventHistory()).toHaveLength(0);
+
+    child.emit('entity:destroyed', { entityId: 1 });
+    grandchild.emit('entity:destroyed', { entityId: 2 });
+    expect(childCount).toBe(0);
+    expect(parentCount).toBe(0);
+
+    expect(() => child.on('entity:destroyed', () => {})).toThrow('disposed EventBus');
+    expect(() => child.createChild()).toThrow('Cannot create a child of a disposed EventBus');
+  });
+
+  it('replaces a disposed default bus', () => {
+    const instance = EventBus.getInstance();
+    expect(EventBus.getInstance()).toBe(instance);
+    instance.dispose();
+    expect(EventBus.getInstance()).not.toBe(instance);
+  });
+});
+
+describe('EventBus subscriptions', () => {
+  it('delivers to exact, namespace and global subscriptions by priority, then subscription order', () => {
+    const bus = new EventBus();
+    const calls: string[] = [];
+    bus.on('*', (_, eventType) => { calls.push(`*:${eventType}`); });
+    bus.on('collision:*', (_, eventType) => { calls.push(`ns:${eventType}`); }, { priority: 5 });
+    bus.on('collision:exit', () => { calls.push('exact'); });
+    bus.on('collision:exit', () => { calls.push('urgent'); }, { priority: 10 });
+    bus.on('entity:*', () => { calls.push('entity'); });
+
+    bus.emit('collision:exit', { entityA: 1, entityB: 2 });
+
+    expect(calls).toEqual(['urgent', 'ns:collision:exit', '*:collision:exit', 'exact']);
+  });
+
+  it('runs a once handler for the first event that passes its filter only', () => {
+    const bus = new EventBus();
+    const damages: number[] = [];
+    bus.once('player:damaged', payload => { damages.push(payload.damage); }, {
+      filter: payload => payload.source === 'lava'
+    });
+
+    bus.emit('player:damaged', { playerId: 1, damage: 5, source: 'fall' });
+    expect(bus.getListenerCount('player:damaged')).toBe(1);
+    bus.emit('player:damaged', { playerId: 1, damage: 7, source: 'lava' });
+    bus.emit('player:damaged', { playerId: 1, damage: 9, source: 'lava' });
+
+    expect(damages).toEqual([7]);
+    expect(bus.getListenerCount('player:damaged')).toBe(0);
+  });
+
+  it('unsubscribes through the returned function and off(), also mid-dispatch', () => {
+    const bus = new EventBus();
+    const calls: string[] = [];
+    const second = () => { calls.push('second'); };
+    const unsubscribeFirst = bus.on('entity:destroyed', () => {
+      calls.push('first');
+      bus.off('entity:destroyed', second);
+    });
+    bus.on('entity:destroyed', second);
+
+    bus.emit('entity:destroyed', { entityId: 1 });
+    unsubscribeFirst();
+    bus.emit('entity:destroyed', { entityId: 2 });
+
+    expect(calls).toEqual(['first']);
+    expect(bus.getRegisteredEvents()).toEqual([]);
+  });
+
+  it('reports a throwing handler as command:failed without stopping the others', () => {
+    const bus = new EventBus();
+    const calls: string[] = [];
+    const errors: string[] = [];
+    bus.on('command:failed', payload => { errors.push(payload.error); });
+    bus.on('entity:destroyed', () => { throw new Error('boom'); }, { priority: 1 });
+    bus.on('entity:destroyed', () => { calls.push('after'); });
+
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    bus.emit('entity:destroyed', { entityId: 1 });
+    consoleError.mockRestore();
+
+    expect(calls).toEqual(['after']);
+    expect(errors).toEqual(['boom']);
+  });
+});
+
+describe('EventBus payload schemas', () => {
+  const spawnedSchema: PayloadSchema = {
+    type: 'object',
+    properties: {
+      entityId: 'number',
+      archetype: { type: 'enum', values: ['tree', 'rock'] },
+      position: { type: 'object', properties: { x: 'number', y: 'number', z: 'number' } }
+    }
+  };
+
+  it('rejects invalid payloads of registered events before dispatching them', () => {
+    const parent = new EventBus();
+    const child = parent.createChild();
+    parent.registerEvent('entity:spawned', spawnedSchema);
+    let received = 0;
+    child.on('entity:spawned', () => { received++; });
+
+    const invalid = { entityId: 1, archetype: 'house', position: { x: 0, y: 0 } } as any;
+    let error: unknown;
+    try {
+      child.emit('entity:spawned', invalid);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(EventPayloadError);
+    expect((error as EventPayloadError).errors.map(e => e.field)).toEqual(['payload.archetype', 'payload.position.z']);
+    expect(received).toBe(0);
+    expect(child.getEventHistory()).toHaveLength(0);
+
+    child.emit('entity:spawned', { entityId: 1, archetype: 'rock', position });
+    expect(received).toBe(1);
+  });
+
+  it('allows one schema per event and bus', () => {
+    const bus = new EventBus();
+    bus.registerEvent('entity:spawned', spawnedSchema);
+    expect(() => bus.registerEvent('entity:spawned', 'any')).toThrow('Event "entity:spawned" is already registered');
+
+    bus.unregisterEvent('entity:spawned');
+    expect(bus.getEventSchema('entity:spawned')).toBeUndefined();
+    bus.emit('entity:spawned', { entityId: 1, archetype: 'house', position });
+  });
+});
+
+describe('validatePayload', () => {
+  it('checks arrays, optional properties and custom predicates', () => {
+    const schema: PayloadSchema = {
+      type: 'object',
+      properties: {
+        tags: { type: 'array', items: 'string' },
+        note: 'string',
+        data: (value: unknown) => value instanceof Float32Array
+      },
+      optional: ['note']
+    };
+
+    expect(validatePayload(schema, { tags: ['a'], data: new Float32Array(1) })).toEqual([]);
+    expect(validatePayload(schema, { tags: ['a', 2], data: [] }).map(e => e.message)).toEqual([
+      'expected string, got number',
+      'rejected by custom check'
+    ]);
+    expect(validatePayload('number', NaN)).toHaveLength(1);
+  });
+});
+
+describe('EventBus queued dispatch', () => {
+  it('buffers events until flush and dispatches them in emission order', () => {
+    const bus = new EventBus({ dispatch: 'queued' });
+    const calls: number[] = [];
+    bus.on('entity:destroyed', payload => {
+      calls.push(payload.entityId);
+      // Emitted by a handler: dispatched later in the same flush, caused by this event
+      if (payload.entityId === 1) bus.emit('entity:destroyed', { entityId: 3 });
+    });
+
+    bus.emit('entity:destroyed', { entityId: 1 });
+    bus.emit('entity:destroyed', { entityId: 2 });
+    expect(calls).toEqual([]);
+    expect(bus.getQueueSize()).toBe(2);
+
+    expect(bus.flush()).toEqual({ dispatched: 3, remaining: 0, dropped: [] });
+    expect(calls).toEqual([1, 2, 3]);
+    const [first, , third] = bus.getEventHistory();
+    expect(third.causedBy).toBe(first.eventId);
+    expect(third.metadata?.traceId).toBe(first.metadata?.traceId);
+  });
+
+  it('leaves events beyond maxEventsPerFlush for the next flush', () => {
+    const bus = new EventBus({ dispatch: 'queued', maxEventsPerFlush: 2 });
+    for (let i = 0; i < 5; i++) bus.emit('entity:destroyed', { entityId: i });
+
+    expect(bus.flush()).toMatchObject({ dispatched: 2, remaining: 3 });
+    expect(bus.flush()).toMatchObject({ dispatched: 2, remaining: 1 });
+    expect(bus.flush()).toMatchObject({ dispatched: 1, remaining: 0 });
+  });
+
+  it('drops events past maxCascadeDepth and reports them to onCascadeLimit', () => {
+    const reported: unknown[] = [];
+    const bus = new EventBus({ dispatch: 'queued', onCascadeLimit: dropped => reported.push(dropped) });
+    let handled = 0;
+    // Two handlers that keep triggering each other
+    bus.on('entity:destroyed', payload => {
+      handled++;
+      bus.emit('entity:spawned', { entityId: payload.entityId, archetype: 'tree', position });
+    });
+    bus.on('entity:spawned', payload => {
+      handled++;
+      bus.emit('entity:destroyed', { entityId: payload.entityId });
+    });
+
+    bus.emit('entity:destroyed', { entityId: 1 });
+    const result = bus.flush();
+
+    // Chains stop at 16 events: the emitted one and 15 emitted by handlers
+    expect(handled).toBe(16);
+    expect(result).toMatchObject({ dispatched: 16, remaining: 0 });
+    expect(result.dropped).toHaveLength(1);
+    const [dropped] = result.dropped;
+    expect(dropped.eventType).toBe('entity:destroyed');
+    expect(dropped.chain).toHaveLength(16);
+    expect(dropped.chain.slice(0, 3)).toEqual(['entity:destroyed', 'entity:spawned', 'entity:destroyed']);
+    expect(reported).toEqual(result.dropped);
+    expect(bus.getQueueSize()).toBe(0);
+  });
+
+  it('refuses a flush from inside an event handler', () => {
+    const bus = new EventBus({ dispatch: 'queued' });
+    const errors: string[] = [];
+    bus.on('command:failed', payload => { errors.push(payload.error); });
+    bus.on('entity:destroyed', () => { bus.flush(); });
+    bus.emit('entity:destroyed', { entityId: 1 });
+
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    bus.flush();
+    consoleError.mockRestore();
+
+    expect(errors).toEqual(['EventBus.flush() cannot be called from an event handler']);
+  });
+});
+
+describe('EventBus.emitAsync', () => {
+  const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+  it('awaits handlers one after another in serial mode', async () => {
+    const bus = new EventBus();
+    const calls: string[] = [];
+    bus.on('entity:destroyed', async () => {
+      await delay(5);
+      calls.push('slow');
+    }, { priority: 1 });
+    bus.on('entity:destroyed', () => { calls.push('fast'); });
+
+    const result = await bus.emitAsync('entity:destroyed', { entityId: 1 });
+
+    expect(calls).toEqual(['slow', 'fast']);
+    expect(result.failures).toEqual([]);
+  });
+
+  it('starts every handler at once in parallel mode', async () => {
+    const bus = new EventBus();
+    const calls: string[] = [];
+    bus.on('entity:destroyed', async () => {
+      await delay(5);
+      calls.push('slow');
+    }, { priority: 1 });
+    bus.on('entity:destroyed', () => { calls.push('fast'); });
+
+    await bus.emitAsync('entity:destroyed', { entityId: 1 }, { mode: 'parallel' });
+
+    expect(calls).toEqual(['fast', 'slow']);
+  });
+
+  it('aggregates thrown, rejected and timed-out handlers into one handler-error event', async () => {
+    const parent = new EventBus();
+    const bus = parent.createChild();
+    const reports: Array<EventMap['event:handler-error']> = [];
+    bus.on('event:handler-error', payload => { reports.push(payload); });
+    let completed = 0;
+
+    bus.on('entity:destroyed', function thrower() { throw new Error('sync'); });
+    bus.on('entity:destroyed', async () => { throw new Error('async'); }, { name: 'persistence' });
+    bus.on('entity:destroyed', () => delay(50), { name: 'meshing' });
+    bus.on('entity:destroyed', () => { completed++; });
+    parent.on('entity:*', () => { throw new Error('parent'); }, { name: 'logger' });
+
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const result = await bus.emitAsync('entity:destroyed', { entityId: 1 }, { timeoutMs: 10 });
+    consoleError.mockRestore();
+
+    expect(completed).toBe(1);
+    expect(reports).toHaveLength(1);
+    expect(reports[0].eventId).toBe(result.eventId);
+    expect(reports[0].eventType).toBe('entity:destroyed');
+    expect(reports[0].failures).toEqual([
+      { handler: 'thrower', pattern: 'entity:destroyed', error: 'sync', timedOut: false },
+      { handler: 'persistence', pattern: 'entity:destroyed', error: 'async', timedOut: false },
+      { handler: 'meshing', pattern: 'entity:destroyed', error: 'Handler timed out after 10ms', timedOut: true }
+    ]);
+    // The caller also gets the failures of the parent's handlers
+    expect(result.failures.map(failure => failure.handler)).toEqual(['thrower', 'persistence', 'meshing', 'logger']);
+  });
+
+  it('reports rejections of async handlers run by emit', async () => {
+    const bus = new EventBus();
+    const reports: Array<EventMap['event:handler-error']> = [];
+    bus.on('event:handler-error', payload => { reports.push(payload); });
+    bus.on('entity:destroyed', async () => { throw new Error('lost'); }, { name: 'persistence' });
+
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    bus.emit('entity:destroyed', { entityId: 1 });
+    await delay(0);
+    consoleError.mockRestore();
+
+    expect(reports.map(report => report.failures[0].handler)).toEqual(['persistence']);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expectTypeOf, it } from 'vitest';
+import { EventBus, EventKey, EventPattern } from '@worldlab/events';
+
+declare module '@worldlab/events' {
+  interface EventMap {
+    'weather:changed': { from: string; to: string };
+  }
+}
+
+describe('EventMap augmentation', () => {
+  it('types custom events like built-in ones', () => {
+    const bus = new EventBus();
+    expectTypeOf<'weather:changed'>().toMatchTypeOf<EventKey>();
+    expectTypeOf<'weather:*'>().toMatchTypeOf<EventPattern>();
+
+    bus.on('weather:changed', payload => {
+      expectTypeOf(payload).toEqualTypeOf<{ from: string; to: string }>();
+    });
+    bus.on('weather:*', (payload, eventType) => {
+      expectTypeOf(eventType).toEqualTypeOf<'weather:changed'>();
+    });
+    bus.emit('weather:changed', { from: 'clear', to: 'rain' });
+
+    // @ts-expect-error wrong payload for a custom event
+    bus.emit('weather:changed', { from: 'clear' });
+    // @ts-expect-error events nobody declared are still rejected
+    bus.emit('weather:unknown', {});
+  });
+});
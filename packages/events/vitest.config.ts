@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Tests import the package by name, as game code does, so EventMap
+// augmentations in them apply to the source under test.
+// The *.test-d.ts files are only type-checked (against test/tsconfig.json)
+export default defineConfig({
+  resolve: { alias: {
+    '@worldlab/events': fileURLToPath(new URL('./src/index.ts', import.meta.url))
+  } },
+  test: {
+    typecheck: { enabled: true, tsconfig: './test/tsconfig.json' }
+  }
+});
@@ -1,27 +1,56 @@
-import alea from './stub-alea';
-import { generateHash } from './utils/hash';
-import { HeightmapGenerator } from './generators/HeightmapGenerator';
-import { BiomeGenerator } from './generators/BiomeGenerator';
-import { ObjectPlacer } from './generators/ObjectPlacer';
+import { RNG } from '@worldlab/core';
+import { createSeedHasher, SeedHasher } from './utils/hash.js';
+import { createDefaultStages } from './pipeline/stages.js';
+import { hashChunk } from './serialization/ChunkHash.js';
+import { GENERATORS_VERSION } from './version.js';
+import { mergeConfig } from './config/merge.js';
+import { assertValidConfig } from './config/validation.js';
+import { ConfigDiff, diffConfigs } from './config/diff.js';
+import { getLodGrid, MAX_LOD } from './utils/grid.js';
 import {
   GeneratorConfig,
-  GenerationContext,
+  GeneratorConfigOverrides,
+  GeneratorStage,
   ChunkData,
+  ChunkRequestOptions,
   BiomeConfig
-} from './types';
+} from './types.js';
 
+/**
+ * Genera chunks ejecutando un pipeline de etapas (por defecto altura →
+ * erosión → agua → densidad → biomas → asentamientos → objetos) que puede
+ * ampliarse con addStage, replaceStage y removeStage
+ *
+ * Las etapas son funciones y no viajan a los workers: para usar etapas
+ * propias con GeneratorPool, regístralas también en el worker
+ * (ver createChunkWorkerHandler)
+ */
 export class WorldGenerator {
   private config: GeneratorConfig;
-  private globalSeed: number;
+  private globalSeed!: number;
+  private hasher!: SeedHasher;
+  private stages: GeneratorStage[] = createDefaultStages();
 
-  constructor(config: GeneratorConfig) {
+  /**
+   * Los campos que falten toman valores por defecto; lanza
+   * ConfigValidationError si la config resultante no es válida
+   */
+  constructor(config: GeneratorConfigOverrides) {
     this.config = this.initializeConfig(config);
-    this.globalSeed = typeof config.seed === 'string'
-      ? generateHash(config.seed)
-      : config.seed;
+    this.initializeSeed();
+  }
+
+  /**
+   * Semilla global según el algoritmo de hash configurado
+   */
+  private initializeSeed(): void {
+    this.hasher = createSeedHasher(this.config.hashAlgorithm);
+    this.globalSeed = typeof this.config.seed === 'string'
+      ? this.hasher.hash(this.config.seed)
+      : this.config.seed;
   }
 
-  private initializeConfig(config: GeneratorConfig): GeneratorConfig {
+  private initializeConfig(config: GeneratorConfigOverrides): GeneratorConfig {
     // Valores por defecto si no se proporcionan
     const defaultConfig: GeneratorConfig = {
       seed: Date.now(),
@@ -32,7 +61,8 @@ export class WorldGenerator {
         octaves: 4,
         persistence: 0.5,
         lacunarity: 2,
-        amplitude: 1
+        amplitude: 1,
+        noiseMode: 'fbm'
       },
       temperatureParams: {
         baseTemperature: 0.5,
@@ -46,26 +76,78 @@ export class WorldGenerator {
       biomeLookupTable: this.getDefaultBiomeLookupTable()
     };
 
-    return {
-      ...defaultConfig,
-      ...config,
-      heightmapParams: { ...defaultConfig.heightmapParams, ...config.heightmapParams },
-      temperatureParams: { ...defaultConfig.temperatureParams, ...config.temperatureParams },
-      moistureParams: { ...defaultConfig.moistureParams, ...config.moistureParams }
-    };
+    const resolved = mergeConfig(defaultConfig, config);
+    assertValidConfig(resolved);
+    return resolved;
   }
 
   private getDefaultBiomes(): BiomeConfig[] {
+    // Rocas agrupadas en pedregales, árboles en bosquetes y sin objetos en laderas abruptas
+    const rockField = { count: 3, radius: 4 };
+    const grove = { count: 4, radius: 8 };
+
     return [
-      { id: 0, name: 'Tundra', color: { r: 176, g: 176, b: 176 }, objectDensity: 0.1 },
-      { id: 1, name: 'Grassland', color: { r: 154, g: 205, b: 50 }, objectDensity: 0.3 },
-      { id: 2, name: 'Desert', color: { r: 238, g: 203, b: 173 }, objectDensity: 0.1 },
-      { id: 3, name: 'Boreal Forest', color: { r: 34, g: 139, b: 34 }, objectDensity: 0.8 },
-      { id: 4, name: 'Temperate Forest', color: { r: 34, g: 90, b: 34 }, objectDensity: 0.7 },
-      { id: 5, name: 'Savanna', color: { r: 189, g: 183, b: 107 }, objectDensity: 0.4 },
-      { id: 6, name: 'Taiga', color: { r: 47, g: 79, b: 47 }, objectDensity: 0.9 },
-      { id: 7, name: 'Temperate Rainforest', color: { r: 0, g: 100, b: 0 }, objectDensity: 0.9 },
-      { id: 8, name: 'Tropical Rainforest', color: { r: 0, g: 128, b: 0 }, objectDensity: 1.0 }
+      {
+        id: 0, name: 'Tundra', color: { r: 176, g: 176, b: 176 }, objectDensity: 0.1,
+        objects: [
+          { type: 'rock_small', weight: 1, minSpacing: 3, maxSlope: 50, cluster: rockField, alignToSurface: 1 }
+        ]
+      },
+      {
+        id: 1, name: 'Grassland', color: { r: 154, g: 205, b: 50 }, objectDensity: 0.3,
+        objects: [
+          { type: 'grass_tall', weight: 1, minSpacing: 2, maxSlope: 30, alignToSurface: 0.5 }
+        ]
+      },
+      {
+        id: 2, name: 'Desert', color: { r: 238, g: 203, b: 173 }, objectDensity: 0.1,
+        objects: [
+          { type: 'cactus', weight: 1, minSpacing: 8, maxSlope: 20, exclusions: [{ type: 'rock_desert', radius: 2 }] },
+          { type: 'rock_desert', weight: 1, minSpacing: 4, maxSlope: 45, cluster: rockField, alignToSurface: 1 }
+        ]
+      },
+      {
+        id: 3, name: 'Boreal Forest', color: { r: 34, g: 139, b: 34 }, objectDensity: 0.8,
+        objects: [
+          { type: 'tree_pine', weight: 1, minSpacing: 5, maxSlope: 35, cluster: grove },
+          { type: 'tree_spruce', weight: 1, minSpacing: 5, maxSlope: 35, cluster: grove }
+        ]
+      },
+      {
+        id: 4, name: 'Temperate Forest', color: { r: 34, g: 90, b: 34 }, objectDensity: 0.7,
+        objects: [
+          { type: 'tree_oak', weight: 1, minSpacing: 6, maxSlope: 30, cluster: grove },
+          { type: 'tree_birch', weight: 1, minSpacing: 5, maxSlope: 30, cluster: grove }
+        ]
+      },
+      {
+        id: 5, name: 'Savanna', color: { r: 189, g: 183, b: 107 }, objectDensity: 0.4,
+        objects: [
+          { type: 'tree_acacia', weight: 1, minSpacing: 12, maxSlope: 25, exclusions: [{ type: 'rock_savanna', radius: 3 }] },
+          { type: 'rock_savanna', weight: 1, minSpacing: 5, maxSlope: 45, cluster: rockField, alignToSurface: 1 }
+        ]
+      },
+      {
+        id: 6, name: 'Taiga', color: { r: 47, g: 79, b: 47 }, objectDensity: 0.9,
+        objects: [
+          { type: 'tree_pine_tall', weight: 1, minSpacing: 5, maxSlope: 35, cluster: grove }
+        ]
+      },
+      {
+        id: 7, name: 'Temperate Rainforest', color: { r: 0, g: 100, b: 0 }, objectDensity: 0.9,
+        objects: [
+          { type: 'tree_jungle', weight: 1, minSpacing: 6, maxSlope: 40, cluster: grove },
+          { type: 'bush_fern', weight: 1, minSpacing: 2, maxSlope: 45 }
+        ]
+      },
+      {
+        id: 8, name: 'Tropical Rainforest', color: { r: 0, g: 128, b: 0 }, objectDensity: 1.0,
+        objects: [
+          { type: 'tree_palm', weight: 1, minSpacing: 6, maxSlope: 30 },
+          { type: 'tree_tropical', weight: 1, minSpacing: 6, maxSlope: 40, cluster: grove },
+          { type: 'bush_tropical', weight: 1, minSpacing: 2, maxSlope: 45 }
+        ]
+      }
     ];
   }
 
@@ -79,67 +161,104 @@ export class WorldGenerator {
     ];
   }
 
+  /**
+   * Etapas del pipeline, en orden de ejecución
+   */
+  getStages(): readonly GeneratorStage[] {
+    return this.stages;
+  }
+
+  /**
+   * Inserta una etapa (al final, o antes/después de otra etapa)
+   */
+  addStage(stage: GeneratorStage, position?: { before?: string; after?: string }): void {
+    if (this.stages.some(existing => existing.name === stage.name)) {
+      throw new Error(`Stage "${stage.name}" is already registered`);
+    }
+
+    if (position?.before !== undefined) {
+      this.stages.splice(this.indexOfStage(position.before), 0, stage);
+    } else if (position?.after !== undefined) {
+      this.stages.splice(this.indexOfStage(position.after) + 1, 0, stage);
+    } else {
+      this.stages.push(stage);
+    }
+  }
+
+  /**
+   * Sustituye una etapa existente manteniendo su posición
+   * (la nueva puede cambiar de nombre, pero no repetir el de otra etapa)
+   */
+  replaceStage(name: string, stage: GeneratorStage): void {
+    const index = this.indexOfStage(name);
+    if (this.stages.some((existing, i) => i !== index && existing.name === stage.name)) {
+      throw new Error(`Stage "${stage.name}" is already registered`);
+    }
+    this.stages[index] = stage;
+  }
+
+  removeStage(name: string): void {
+    this.stages.splice(this.indexOfStage(name), 1);
+  }
+
   /**
    * Genera un chunk específico
+   * onProgress se llama antes de cada etapa con el nombre de la etapa
+   *
+   * Con options.lod > 0 las capas usan la rejilla reducida de getLodGrid y
+   * solo se ejecutan las etapas con supportsLod (altura y biomas): sin
+   * erosión, agua, vóxeles, asentamientos ni objetos, pensado para terreno lejano
    */
   async generateChunk(
     chunkCoord: { x: number; z: number },
     callbacks?: {
-      onProgress?: (progress: number) => void;
+      onProgress?: (progress: number, stage?: string) => void;
       onComplete?: (data: ChunkData) => void;
       onError?: (error: Error) => void;
-    }
+    },
+    options: ChunkRequestOptions = {}
   ): Promise<ChunkData> {
     const startTime = performance.now();
 
     try {
-      callbacks?.onProgress?.(0);
-
-      // Generar sub-seeds deterministas para cada sistema
-      const chunkSeed = generateHash(this.globalSeed, chunkCoord.x, chunkCoord.z);
-      const heightSeed = generateHash(chunkSeed, 'height');
-      const tempSeed = generateHash(chunkSeed, 'temperature');
-      const moistSeed = generateHash(chunkSeed, 'moisture');
-      const objectSeed = generateHash(chunkSeed, 'objects');
-
-      // Crear PRNGs para cada sistema
-      const heightPrng = alea(heightSeed);
-      const tempPrng = alea(tempSeed);
-      const moistPrng = alea(moistSeed);
-      const objectPrng = alea(objectSeed);
-
-      // Contexto de generación
-      const context: GenerationContext = {
-        seed: chunkSeed,
-        chunkCoord,
-        chunkSize: this.config.chunkSize,
-        config: this.config
-      };
+      const lod = options.lod ?? 0;
+      this.assertValidLod(lod);
+      const stages = this.resolveStages(lod);
 
-      // 1. Generar heightmap
-      callbacks?.onProgress?.(0.25);
-      const heightmapGen = new HeightmapGenerator(heightPrng);
-      const paddedHeightmap = heightmapGen.generate(context);
-      const heightmap = HeightmapGenerator.extractCenterArea(
-        paddedHeightmap,
-        this.config.chunkSize,
-        1
-      );
-
-      // 2. Generar biomas (temperatura, humedad, clasificación)
-      callbacks?.onProgress?.(0.5);
-      const biomeGen = new BiomeGenerator(tempPrng, moistPrng);
-      const contextWithHeight = { ...context, heightmap };
-      const { temperature, moisture, biomemap } = biomeGen.generate(contextWithHeight);
-
-      // 3. Colocar objetos
-      callbacks?.onProgress?.(0.75);
-      const objects = ObjectPlacer.placeObjects(
-        context,
-        biomemap,
-        heightmap,
-        objectPrng
-      );
+      // Semillas deterministas por etapa. Los campos continuos (altura, clima)
+      // usan la semilla global: el ruido debe ser el mismo a ambos lados de un
+      // borde para que los chunks encajen.
+      const chunkSeed = this.hasher.hash(this.globalSeed, chunkCoord.x, chunkCoord.z);
+      const chunk: Partial<ChunkData> = {};
+      const intermediate: Record<string, unknown> = {};
+
+      for (let i = 0; i < stages.length; i++) {
+        const stage = stages[i];
+        callbacks?.onProgress?.(i / stages.length, stage.name);
+
+        const seed = this.hasher.hash(
+          stage.seedScope === 'global' ? this.globalSeed : chunkSeed,
+          stage.name
+        );
+        const rng = new RNG(seed);
+        await stage.run({
+          globalSeed: this.globalSeed,
+          seed,
+          hasher: this.hasher,
+          rng,
+          prng: rng.toFunction(),
+          chunkCoord,
+          chunkSize: this.config.chunkSize,
+          config: this.config,
+          ...(lod > 0 && { lod }),
+          chunk,
+          intermediate
+        });
+      }
+
+      const gridSize = getLodGrid(this.config.chunkSize, lod).size;
+      const cellCount = gridSize * gridSize;
+      const heightmap = chunk.heightmap ?? new Float32Array(cellCount);
 
       // Calcular metadata
       let minHeight = Infinity;
@@ -151,20 +270,26 @@ export class WorldGenerator {
 
       const generationTime = performance.now() - startTime;
 
+      // Los campos obligatorios que ninguna etapa produjo quedan vacíos
       const chunkData: ChunkData = {
+        ...chunk,
         coord: chunkCoord,
         heightmap,
-        biomemap,
-        temperature,
-        moisture,
-        objects,
+        biomemap: chunk.biomemap ?? new Uint8Array(cellCount),
+        temperature: chunk.temperature ?? new Float32Array(cellCount),
+        moisture: chunk.moisture ?? new Float32Array(cellCount),
+        objects: chunk.objects ?? [],
         metadata: {
+          ...chunk.metadata,
           minHeight,
           maxHeight,
           generationTime,
-          seed: chunkSeed
+          seed: chunkSeed,
+          generatorVersion: GENERATORS_VERSION,
+          ...(lod > 0 && { lod })
         }
       };
+      chunkData.metadata.contentHash = hashChunk(chunkData);
 
       callbacks?.onProgress?.(1);
       callbacks?.onComplete?.(chunkData);
@@ -185,6 +310,24 @@ export class WorldGenerator {
     radius: number
   ): Promise<ChunkData[]> {
     const chunks: ChunkData[] = [];
+    const coords = WorldGenerator.getSpiralCoords(centerChunk, radius);
+
+    // Generar chunks
+    for (const coord of coords) {
+      const chunk = await this.generateChunk(coord);
+      chunks.push(chunk);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Coordenadas de chunks en espiral desde un centro
+   */
+  static getSpiralCoords(
+    centerChunk: { x: number; z: number },
+    radius: number
+  ): Array<{ x: number; z: number }> {
     const coords: Array<{ x: number; z: number }> = [];
 
     // Generar coordenadas en espiral
@@ -209,23 +352,22 @@ export class WorldGenerator {
       z += dz;
     }
 
-    // Generar chunks
-    for (const coord of coords) {
-      const chunk = await this.generateChunk(coord);
-      chunks.push(chunk);
-    }
-
-    return chunks;
+    return coords;
   }
 
   /**
-   * Actualiza la configuración
+   * Actualiza la configuración (mezclando los parámetros anidados como el
+   * constructor) y devuelve qué cambió y si hay que regenerar los chunks
+   * ya generados
    */
-  updateConfig(config: Partial<GeneratorConfig>): void {
-    this.config = {
-      ...this.config,
-      ...config
-    };
+  updateConfig(config: GeneratorConfigOverrides): ConfigDiff {
+    const previous = this.config;
+    const updated = mergeConfig(this.config, config);
+    assertValidConfig(updated);
+
+    this.config = updated;
+    this.initializeSeed();
+    return diffConfigs(previous, updated);
   }
 
   /**
@@ -234,4 +376,45 @@ export class WorldGenerator {
   getConfig(): GeneratorConfig {
     return { ...this.config };
   }
-}
\ No newline at end of file
+
+  private assertValidLod(lod: number): void {
+    if (!Number.isInteger(lod) || lod < 0 || lod > MAX_LOD) {
+      throw new Error(`LOD must be an integer between 0 and ${MAX_LOD}, got ${lod}`);
+    }
+    if (this.config.chunkSize >> lod < 1) {
+      throw new Error(`LOD ${lod} is too coarse for chunkSize ${this.config.chunkSize}`);
+    }
+  }
+
+  private indexOfStage(name: string): number {
+    const index = this.stages.findIndex(stage => stage.name === name);
+    if (index === -1) {
+      throw new Error(`Unknown stage "${name}"`);
+    }
+    return index;
+  }
+
+  /**
+   * Etapas activas para la config actual y el nivel de detalle, comprobando
+   * que cada entrada la produce una etapa anterior
+   */
+  private resolveStages(lod: number): GeneratorStage[] {
+    const stages = this.stages.filter(stage =>
+      (stage.enabled?.(this.config) ?? true) && (lod === 0 || stage.supportsLod === true)
+    );
+    const available = new Set<string>();
+
+    for (const stage of stages) {
+      const missing = stage.inputs.filter(input => !available.has(input));
+      if (missing.length > 0) {
+        throw new Error(
+          `Stage "${stage.name}" requires ${missing.map(m => `"${m}"`).join(', ')}, ` +
+          'which no earlier stage produces'
+        );
+      }
+      stage.outputs.forEach(output => available.add(output));
+    }
+
+    return stages;
+  }
+}
@@ -0,0 +1,48 @@
+// Exporta una región de chunks a PNG para verla fuera del viewer
+//
+//   node dist/cli/export-map.js --seed 12345 --radius 2 --out maps
+//
+// Escribe <out>/heightmap.png (gris de 16 bits, alturas en [-1, 1]) y
+// <out>/biomes.png con los colores de BiomeConfig. La región son los chunks
+// de -radius a radius en X y Z; el píxel (0, 0) es la celda
+// (-radius * chunkSize, -radius * chunkSize).
+import { writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { WorldGenerator } from '../WorldGenerator.js';
+import { exportBiomePNG, exportHeightmapPNG } from '../serialization/ImageExport.js';
+import { ChunkData } from '../types.js';
+
+function option(args: string[], name: string, fallback: string): string {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 && args[index + 1] !== undefined ? args[index + 1] : fallback;
+}
+
+async function main(args: string[]): Promise<number> {
+  const seedArg = option(args, 'seed', '12345');
+  const seed = Number.isNaN(Number(seedArg)) ? seedArg : Number(seedArg);
+  const radius = Number(option(args, 'radius', '2'));
+  const chunkSize = Number(option(args, 'chunk-size', '64'));
+  const outDir = option(args, 'out', 'maps');
+
+  const generator = new WorldGenerator({ seed, chunkSize });
+  const chunks: ChunkData[] = [];
+  for (let z = -radius; z <= radius; z++) {
+    for (let x = -radius; x <= radius; x++) {
+      chunks.push(await generator.generateChunk({ x, z }));
+    }
+  }
+
+  await mkdir(outDir, { recursive: true });
+  await writeFile(join(outDir, 'heightmap.png'), exportHeightmapPNG(chunks));
+  await writeFile(join(outDir, 'biomes.png'), exportBiomePNG(chunks, generator.getConfig().biomes));
+  console.log(`Wrote ${chunks.length} chunks (seed ${seed}) to ${outDir}`);
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    console.error(error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,57 @@
+// Corpus golden: hashes de chunks para semillas y coordenadas fijas
+//
+//   node dist/cli/golden.js            compara con golden/corpus.json
+//   node dist/cli/golden.js --update   regenera el corpus
+//   node dist/cli/golden.js --corpus <ruta>
+//
+// Sale con código 1 si algún hash cambió, indicando la primera capa (en orden
+// de pipeline) que difiere: las capas posteriores suelen cambiar en cascada.
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { GENERATORS_VERSION } from '../version.js';
+import { buildGoldenCorpus, diffGoldenCorpus, GoldenCorpus } from '../serialization/GoldenCorpus.js';
+
+async function main(args: string[]): Promise<number> {
+  const corpusIndex = args.indexOf('--corpus');
+  const corpusPath = corpusIndex !== -1 ? args[corpusIndex + 1] : 'golden/corpus.json';
+  const actual = await buildGoldenCorpus();
+
+  if (args.includes('--update')) {
+    await mkdir(dirname(corpusPath), { recursive: true });
+    await writeFile(corpusPath, JSON.stringify(actual, null, 2) + '\n');
+    console.log(`Wrote ${actual.entries.length} golden entries to ${corpusPath}`);
+    return 0;
+  }
+
+  let expected: GoldenCorpus;
+  try {
+    expected = JSON.parse(await readFile(corpusPath, 'utf8')) as GoldenCorpus;
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'ENOENT') throw error;
+    console.error(`No golden corpus at ${corpusPath}; run with --update to create it`);
+    return 1;
+  }
+
+  const problems = diffGoldenCorpus(expected, actual);
+  if (problems.length === 0) {
+    console.log(`All ${expected.entries.length} golden chunks match (generator ${GENERATORS_VERSION})`);
+    return 0;
+  }
+
+  problems.forEach(problem => console.error(problem));
+  console.error(
+    expected.generatorVersion === GENERATORS_VERSION
+      ? `Worlds changed without a GENERATORS_VERSION bump (still ${GENERATORS_VERSION})`
+      : `Generator version ${expected.generatorVersion} -> ${GENERATORS_VERSION}; ` +
+        'run with --update if the change is intended'
+  );
+  return 1;
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    console.error(error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,40 @@
+// Calidad de los hashes de semillas: avalancha y colisiones
+//
+//   node dist/cli/hash-stats.js
+//
+// Compara generateHash (legacy) con hash32 (mix32). Sale con código 1 si
+// hash32 no cumple los umbrales; legacy solo se informa. Los mismos umbrales
+// se comprueban en test/hashStats.test.ts.
+import { generateHash, hash32 } from '../utils/hash.js';
+import { HashFn, measureHash } from '../utils/hashStats.js';
+
+const HASHES: Record<string, HashFn> = {
+  legacy: generateHash,
+  mix32: hash32
+};
+
+function main(): number {
+  let failed = false;
+
+  for (const [name, hash] of Object.entries(HASHES)) {
+    const stats = measureHash(hash);
+
+    console.log(
+      `${name.padEnd(6)} avalanche bias ${stats.avalancheBias.toFixed(4)}  ` +
+      `collisions ${stats.collisions} (expected ~${stats.expectedCollisions.toFixed(1)})  ` +
+      `(1,23) == (12,3): ${stats.ambiguous}`
+    );
+
+    if (name === 'mix32') {
+      failed = !stats.passed;
+    }
+  }
+
+  if (failed) {
+    console.error('mix32 is outside the expected distribution thresholds');
+    return 1;
+  }
+  return 0;
+}
+
+process.exit(main());
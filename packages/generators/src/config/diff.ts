@@ -0,0 +1,117 @@
+import { CHUNK_HASH_LAYERS, ChunkHashLayer, hashBytes } from '../serialization/ChunkHash.js';
+import { GeneratorConfig } from '../types.js';
+
+export interface ConfigChange {
+  path: string; // p. ej. 'heightmapParams.octaves' o 'biomes[2].objects[0].minSpacing'
+  before: unknown;
+  after: unknown;
+}
+
+export interface ConfigDiff {
+  changes: ConfigChange[];
+  layers: ChunkHashLayer[]; // capas de chunk que cambian, en orden de pipeline
+  regenerate: boolean; // si los chunks ya generados dejan de ser válidos
+}
+
+/**
+ * Primera capa afectada por cada parte de la config (la más específica gana)
+ * Las capas posteriores en CHUNK_HASH_LAYERS se consideran afectadas también,
+ * porque sus etapas leen las anteriores. null: no afecta a los chunks
+ * (colores, nombres y fricción solo los usan el viewer y la física).
+ */
+const FIRST_AFFECTED_LAYER: Array<[RegExp, ChunkHashLayer | null]> = [
+  [/^biomes\[\d+\]\.(color|name|friction)\b/, null],
+  [/^biomes\[\d+\]\.(objects|objectDensity)\b/, 'objects'],
+  [/^(temperatureParams|moistureParams|biomes|biomeLookupTable|biomeBlendParams)\b/, 'temperature'],
+  [/^waterParams\b/, 'watermap'],
+  [/^densityParams\b/, 'voxels'],
+  [/^(worldScale|settlementParams)\b/, 'roadmask'],
+  [/^(seed|chunkSize|hashAlgorithm|heightmapParams|erosionParams)\b/, 'heightmap']
+];
+
+/**
+ * Diferencias entre dos configs completas y qué capas de los chunks cambian
+ * Como toda la config es global, o se regeneran todos los chunks o ninguno;
+ * `layers` indica desde qué etapa hace falta
+ */
+export function diffConfigs(before: GeneratorConfig, after: GeneratorConfig): ConfigDiff {
+  const changes: ConfigChange[] = [];
+  collectChanges('', before, after, changes);
+
+  let firstLayer: number = CHUNK_HASH_LAYERS.length;
+  for (const { path } of changes) {
+    const match = FIRST_AFFECTED_LAYER.find(([pattern]) => pattern.test(path));
+    // Campos desconocidos (p. ej. añadidos por etapas propias): todo cambia
+    const layer = match ? match[1] : 'heightmap';
+    if (layer !== null) {
+      firstLayer = Math.min(firstLayer, CHUNK_HASH_LAYERS.findIndex(entry => entry.layer === layer));
+    }
+  }
+
+  const layers = CHUNK_HASH_LAYERS.slice(firstLayer).map(entry => entry.layer);
+  return { changes, layers, regenerate: layers.length > 0 };
+}
+
+/**
+ * Hash de la parte de la config que influye en los chunks
+ * Dos configs con el mismo hash producen los mismos chunks; cambiar solo
+ * campos sin capa afectada (colores, nombres, fricción) no lo altera
+ */
+export function hashGenerationConfig(config: GeneratorConfig): string {
+  const leaves: string[] = [];
+  collectLeaves('', config, leaves);
+  return hashBytes(new TextEncoder().encode(leaves.sort().join('\n')));
+}
+
+/**
+ * Chunks cargados que hay que regenerar tras un cambio de config
+ */
+export function getChunksToRegenerate<T extends { x: number; z: number }>(
+  diff: ConfigDiff,
+  loaded: Iterable<T>
+): T[] {
+  return diff.regenerate ? [...loaded] : [];
+}
+
+function collectChanges(path: string, before: unknown, after: unknown, changes: ConfigChange[]): void {
+  if (Object.is(before, after)) return;
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      collectChanges(`${path}[${i}]`, before[i], after[i], changes);
+    }
+    return;
+  }
+
+  if (isObject(before) && isObject(after) && !Array.isArray(before) && !Array.isArray(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      collectChanges(path ? `${path}.${key}` : key, before[key], after[key], changes);
+    }
+    return;
+  }
+
+  changes.push({ path, before, after });
+}
+
+function collectLeaves(path: string, value: unknown, leaves: string[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => collectLeaves(`${path}[${i}]`, item, leaves));
+    return;
+  }
+
+  if (isObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      collectLeaves(path ? `${path}.${key}` : key, item, leaves);
+    }
+    return;
+  }
+
+  const match = FIRST_AFFECTED_LAYER.find(([pattern]) => pattern.test(path));
+  if (value !== undefined && match?.[1] !== null) {
+    leaves.push(`${path}=${JSON.stringify(value)}`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
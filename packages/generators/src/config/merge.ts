@@ -0,0 +1,33 @@
+import { GeneratorConfigOverrides } from '../types.js';
+
+/**
+ * Aplica overrides sobre una config (completa o parcial, como un preset)
+ * Los objetos de parámetros se mezclan a cualquier profundidad
+ * (heightmapParams.domainWarp.strength no borra el resto de domainWarp ni de
+ * heightmapParams); los arrays como biomes se sustituyen.
+ * Un valor undefined explícito desactiva una sección opcional
+ * (p. ej. { erosionParams: undefined }).
+ */
+export function mergeConfig<T extends GeneratorConfigOverrides>(
+  base: T,
+  overrides: GeneratorConfigOverrides
+): T {
+  return mergeObjects(base, overrides) as T;
+}
+
+function mergeObjects(base: object, overrides: object): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    const current = merged[key];
+    merged[key] = isPlainObject(value) && isPlainObject(current)
+      ? mergeObjects(current, value)
+      : value;
+  }
+
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
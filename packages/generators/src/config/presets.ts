@@ -0,0 +1,70 @@
+import { GeneratorConfigOverrides } from '../types.js';
+import { mergeConfig } from './merge.js';
+
+/**
+ * Configuraciones con nombre para tipos de mundo habituales
+ * Solo fijan lo que caracteriza al mundo; el resto sale de los valores por
+ * defecto de WorldGenerator
+ */
+export const CONFIG_PRESETS = {
+  // Islas pequeñas separadas por mar: continentalidad de alta frecuencia con
+  // umbral alto (la mayor parte queda bajo el agua)
+  archipelago: {
+    heightmapParams: {
+      frequency: 0.012,
+      octaves: 5,
+      continentalness: { frequency: 0.004, threshold: 0.35, coastWidth: 0.1, oceanDepth: 0.6 }
+    },
+    waterParams: { riverThreshold: 120, seaLevel: -0.1 },
+    biomeBlendParams: { blendWidth: 0.1, jitterStrength: 0.04 }
+  },
+
+  // Cordilleras con crestas, valles erosionados y nieve por altitud
+  alpine: {
+    worldScale: 40,
+    heightmapParams: {
+      noiseMode: 'ridged',
+      frequency: 0.006,
+      octaves: 6,
+      domainWarp: { frequency: 0.003, strength: 40 }
+    },
+    temperatureParams: { altitudeLapseRate: 0.45 },
+    erosionParams: { hydraulicIterations: 3000, thermalIterations: 6 },
+    waterParams: { riverThreshold: 60, lakeRadius: 6 }
+  },
+
+  // Dunas y mesetas secas: la tabla de Whittaker lleva casi todo a desierto
+  // y sabana, con oasis de bosque solo en lo más húmedo
+  'desert-world': {
+    heightmapParams: { noiseMode: 'billow', frequency: 0.008, octaves: 3 },
+    moistureParams: { frequency: 0.004 },
+    biomeLookupTable: [
+      [2, 2, 2, 2],
+      [2, 2, 5, 2],
+      [1, 5, 5, 2],
+      [4, 5, 8, 8]
+    ],
+    biomeBlendParams: { blendWidth: 0.15, jitterStrength: 0.06 },
+    settlementParams: { regionSize: 256, density: 0.3, allowedBiomes: [1, 4, 5] }
+  }
+} satisfies Record<string, GeneratorConfigOverrides>;
+
+export type ConfigPresetName = keyof typeof CONFIG_PRESETS;
+
+/**
+ * Overrides de un preset, con los de la aplicación encima
+ * (p. ej. createPresetConfig('alpine', { seed: 42 }))
+ */
+export function createPresetConfig(
+  name: ConfigPresetName,
+  overrides: GeneratorConfigOverrides = {}
+): GeneratorConfigOverrides {
+  const preset: GeneratorConfigOverrides = CONFIG_PRESETS[name];
+  if (!preset) {
+    throw new Error(
+      `Unknown config preset "${name}" (available: ${Object.keys(CONFIG_PRESETS).join(', ')})`
+    );
+  }
+
+  return mergeConfig(preset, overrides);
+}
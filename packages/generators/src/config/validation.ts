@@ -0,0 +1,273 @@
+import { SettlementGenerator } from '../generators/SettlementGenerator.js';
+import { GeneratorConfig, HashAlgorithm, HeightmapNoiseMode } from '../types.js';
+
+export interface ConfigIssue {
+  path: string; // p. ej. 'heightmapParams.octaves' o 'biomeLookupTable[1][2]'
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(
+      `Invalid generator config:\n` +
+      issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')
+    );
+    this.name = 'ConfigValidationError';
+  }
+}
+
+const NOISE_MODES: readonly HeightmapNoiseMode[] = ['fbm', 'ridged', 'billow'];
+const HASH_ALGORITHMS: readonly HashAlgorithm[] = ['mix32', 'legacy'];
+
+/**
+ * Comprueba una config ya completada con los valores por defecto
+ * Devuelve todos los problemas encontrados (vacío si es válida)
+ */
+export function validateConfig(config: GeneratorConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const check = new Checker(issues);
+
+  if (typeof config.seed === 'string') {
+    if (config.seed.length === 0) check.fail('seed', 'must not be an empty string');
+  } else {
+    check.finite('seed', config.seed);
+  }
+
+  if (!Number.isInteger(config.chunkSize) || config.chunkSize < 8 || config.chunkSize > 1024 ||
+      (config.chunkSize & (config.chunkSize - 1)) !== 0) {
+    check.fail('chunkSize', `must be a power of two between 8 and 1024 (got ${config.chunkSize})`);
+  }
+  check.positive('worldScale', config.worldScale);
+  if (config.hashAlgorithm !== undefined) {
+    check.oneOf('hashAlgorithm', config.hashAlgorithm, HASH_ALGORITHMS);
+  }
+
+  const height = config.heightmapParams;
+  check.positive('heightmapParams.frequency', height.frequency);
+  check.integer('heightmapParams.octaves', height.octaves, 1, 16);
+  check.positive('heightmapParams.persistence', height.persistence);
+  check.positive('heightmapParams.lacunarity', height.lacunarity);
+  check.positive('heightmapParams.amplitude', height.amplitude);
+  if (height.noiseMode !== undefined) {
+    check.oneOf('heightmapParams.noiseMode', height.noiseMode, NOISE_MODES);
+  }
+  if (height.ridgeOffset !== undefined) check.positive('heightmapParams.ridgeOffset', height.ridgeOffset);
+  if (height.ridgeGain !== undefined) check.finite('heightmapParams.ridgeGain', height.ridgeGain);
+  if (height.domainWarp) {
+    check.positive('heightmapParams.domainWarp.frequency', height.domainWarp.frequency);
+    check.range('heightmapParams.domainWarp.strength', height.domainWarp.strength, 0, Infinity);
+    if (height.domainWarp.octaves !== undefined) {
+      check.integer('heightmapParams.domainWarp.octaves', height.domainWarp.octaves, 1, 16);
+    }
+  }
+  if (height.continentalness) {
+    const continent = height.continentalness;
+    check.positive('heightmapParams.continentalness.frequency', continent.frequency);
+    check.range('heightmapParams.continentalness.threshold', continent.threshold, -1, 1);
+    check.positive('heightmapParams.continentalness.coastWidth', continent.coastWidth);
+    check.range('heightmapParams.continentalness.oceanDepth', continent.oceanDepth, 0, Infinity);
+  }
+
+  check.finite('temperatureParams.baseTemperature', config.temperatureParams.baseTemperature);
+  check.positive('temperatureParams.frequency', config.temperatureParams.frequency);
+  check.finite('temperatureParams.altitudeLapseRate', config.temperatureParams.altitudeLapseRate);
+  check.positive('moistureParams.frequency', config.moistureParams.frequency);
+
+  if (config.erosionParams) {
+    const erosion = config.erosionParams;
+    check.integer('erosionParams.hydraulicIterations', erosion.hydraulicIterations, 0, Infinity);
+    check.integer('erosionParams.thermalIterations', erosion.thermalIterations, 0, Infinity);
+    if (erosion.regionSize !== undefined) check.integer('erosionParams.regionSize', erosion.regionSize, 1, Infinity);
+    if (erosion.dropletLifetime !== undefined) {
+      check.integer('erosionParams.dropletLifetime', erosion.dropletLifetime, 1, Infinity);
+    }
+    if (erosion.inertia !== undefined) check.range('erosionParams.inertia', erosion.inertia, 0, 1);
+    for (const key of ['sedimentCapacity', 'erodeSpeed', 'depositSpeed', 'talus', 'thermalRate'] as const) {
+      if (erosion[key] !== undefined) check.range(`erosionParams.${key}`, erosion[key]!, 0, Infinity);
+    }
+    if (erosion.evaporateSpeed !== undefined) {
+      check.range('erosionParams.evaporateSpeed', erosion.evaporateSpeed, 0, 1);
+    }
+  }
+
+  if (config.waterParams) {
+    const water = config.waterParams;
+    check.positive('waterParams.riverThreshold', water.riverThreshold);
+    for (const key of ['riverReach', 'lakeRadius', 'moistureRadius'] as const) {
+      if (water[key] !== undefined) check.integer(`waterParams.${key}`, water[key]!, 0, Infinity);
+    }
+    if (water.lakeMinAccumulation !== undefined) {
+      check.range('waterParams.lakeMinAccumulation', water.lakeMinAccumulation, 0, Infinity);
+    }
+    if (water.seaLevel !== undefined) check.finite('waterParams.seaLevel', water.seaLevel);
+    if (water.moistureBoost !== undefined) check.range('waterParams.moistureBoost', water.moistureBoost, 0, 1);
+  }
+
+  if (config.densityParams) {
+    const density = config.densityParams;
+    check.finite('densityParams.minY', density.minY);
+    if (check.finite('densityParams.maxY', density.maxY) && density.maxY - density.minY < 1) {
+      check.fail('densityParams.maxY', `must be at least 1 above minY (got minY ${density.minY}, maxY ${density.maxY})`);
+    }
+    if (density.verticalScale !== undefined) check.positive('densityParams.verticalScale', density.verticalScale);
+    if (density.falloff !== undefined) check.positive('densityParams.falloff', density.falloff);
+    check.positive('densityParams.frequency', density.frequency);
+    check.integer('densityParams.octaves', density.octaves, 1, 16);
+    if (density.persistence !== undefined) check.positive('densityParams.persistence', density.persistence);
+    if (density.lacunarity !== undefined) check.positive('densityParams.lacunarity', density.lacunarity);
+    check.range('densityParams.strength', density.strength, 0, Infinity);
+    if (density.caves) {
+      check.positive('densityParams.caves.frequency', density.caves.frequency);
+      if (check.positive('densityParams.caves.threshold', density.caves.threshold)) {
+        check.range('densityParams.caves.threshold', density.caves.threshold, 0, 1);
+      }
+    }
+  }
+
+  // Biomas: ids únicos que caben en el Uint8Array del biomemap
+  const biomeIds = new Set<number>();
+  if (config.biomes.length === 0) check.fail('biomes', 'must define at least one biome');
+  config.biomes.forEach((biome, i) => {
+    const path = `biomes[${i}]`;
+    if (check.integer(`${path}.id`, biome.id, 0, 255)) {
+      if (biomeIds.has(biome.id)) check.fail(`${path}.id`, `duplicate biome id ${biome.id}`);
+      biomeIds.add(biome.id);
+    }
+    for (const channel of ['r', 'g', 'b'] as const) {
+      check.integer(`${path}.color.${channel}`, biome.color[channel], 0, 255);
+    }
+    if (biome.objectDensity !== undefined) check.range(`${path}.objectDensity`, biome.objectDensity, 0, 1);
+
+    biome.objects?.forEach((rule, j) => {
+      const rulePath = `${path}.objects[${j}]`;
+      check.range(`${rulePath}.weight`, rule.weight, 0, Infinity);
+      check.positive(`${rulePath}.minSpacing`, rule.minSpacing);
+      if (rule.minSlope !== undefined && rule.maxSlope !== undefined && rule.minSlope > rule.maxSlope) {
+        check.fail(`${rulePath}.minSlope`, `is greater than maxSlope (${rule.minSlope} > ${rule.maxSlope})`);
+      }
+      if (rule.minHeight !== undefined && rule.maxHeight !== undefined && rule.minHeight > rule.maxHeight) {
+        check.fail(`${rulePath}.minHeight`, `is greater than maxHeight (${rule.minHeight} > ${rule.maxHeight})`);
+      }
+      if (rule.cluster) {
+        check.integer(`${rulePath}.cluster.count`, rule.cluster.count, 0, Infinity);
+        check.range(`${rulePath}.cluster.radius`, rule.cluster.radius, 0, Infinity);
+      }
+      rule.exclusions?.forEach((exclusion, k) =>
+        check.range(`${rulePath}.exclusions[${k}].radius`, exclusion.radius, 0, Infinity)
+      );
+      if (rule.alignToSurface !== undefined) check.range(`${rulePath}.alignToSurface`, rule.alignToSurface, 0, 1);
+    });
+  });
+
+  // Tabla de Whittaker: rectangular y solo con biomas definidos
+  const table = config.biomeLookupTable;
+  if (table.length === 0 || table[0].length === 0) {
+    check.fail('biomeLookupTable', 'must have at least one row and one column');
+  }
+  table.forEach((row, i) => {
+    if (row.length !== table[0].length) {
+      check.fail(`biomeLookupTable[${i}]`, `has ${row.length} columns, expected ${table[0].length}`);
+    }
+    row.forEach((id, j) => {
+      if (!biomeIds.has(id)) check.fail(`biomeLookupTable[${i}][${j}]`, `references unknown biome id ${id}`);
+    });
+  });
+
+  if (config.biomeBlendParams) {
+    const blend = config.biomeBlendParams;
+    check.range('biomeBlendParams.blendWidth', blend.blendWidth, 0, 1);
+    if (blend.topK !== undefined) check.integer('biomeBlendParams.topK', blend.topK, 1, 4);
+    if (blend.jitterStrength !== undefined) check.range('biomeBlendParams.jitterStrength', blend.jitterStrength, 0, 1);
+    if (blend.jitterFrequency !== undefined) check.positive('biomeBlendParams.jitterFrequency', blend.jitterFrequency);
+  }
+
+  if (config.settlementParams) {
+    const settlement = config.settlementParams;
+    if (check.positive('settlementParams.regionSize', settlement.regionSize)) {
+      // Los asentamientos se colocan a radius + roadStep del borde de su región
+      const { radius, roadStep } = SettlementGenerator.resolveParams(settlement);
+      if (settlement.regionSize <= (radius + roadStep) * 2) {
+        check.fail(
+          'settlementParams.regionSize',
+          `must be larger than 2 * (radius + roadStep) = ${(radius + roadStep) * 2}`
+        );
+      }
+    }
+    if (settlement.density !== undefined) check.range('settlementParams.density', settlement.density, 0, 1);
+    for (const key of ['radius', 'roadWidth', 'roadStep'] as const) {
+      if (settlement[key] !== undefined) check.positive(`settlementParams.${key}`, settlement[key]!);
+    }
+    for (const key of ['maxHeightRange', 'slopeCost', 'waterCost'] as const) {
+      if (settlement[key] !== undefined) check.range(`settlementParams.${key}`, settlement[key]!, 0, Infinity);
+    }
+    const { minBuildings, maxBuildings } = settlement;
+    if (minBuildings !== undefined) check.integer('settlementParams.minBuildings', minBuildings, 1, Infinity);
+    if (maxBuildings !== undefined) check.integer('settlementParams.maxBuildings', maxBuildings, 1, Infinity);
+    if (minBuildings !== undefined && maxBuildings !== undefined && minBuildings > maxBuildings) {
+      check.fail('settlementParams.minBuildings', `is greater than maxBuildings (${minBuildings} > ${maxBuildings})`);
+    }
+    settlement.allowedBiomes?.forEach((id, i) => {
+      if (!biomeIds.has(id)) check.fail(`settlementParams.allowedBiomes[${i}]`, `references unknown biome id ${id}`);
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Lanza ConfigValidationError si la config tiene algún problema
+ */
+export function assertValidConfig(config: GeneratorConfig): void {
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+}
+
+/**
+ * Comprobaciones básicas que acumulan problemas; devuelven si el valor es válido
+ */
+class Checker {
+  constructor(private issues: ConfigIssue[]) {}
+
+  fail(path: string, message: string): false {
+    this.issues.push({ path, message });
+    return false;
+  }
+
+  finite(path: string, value: unknown): boolean {
+    return typeof value === 'number' && Number.isFinite(value)
+      ? true
+      : this.fail(path, `must be a finite number (got ${describe(value)})`);
+  }
+
+  positive(path: string, value: unknown): boolean {
+    if (!this.finite(path, value)) return false;
+    return (value as number) > 0 ? true : this.fail(path, `must be greater than 0 (got ${value})`);
+  }
+
+  range(path: string, value: unknown, min: number, max: number): boolean {
+    if (typeof value !== 'number' || Number.isNaN(value) || value < min || value > max) {
+      return this.fail(path, `must be a number in [${min}, ${max}] (got ${describe(value)})`);
+    }
+    return true;
+  }
+
+  integer(path: string, value: unknown, min: number, max: number): boolean {
+    if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+      const bounds = max === Infinity ? `>= ${min}` : `in [${min}, ${max}]`;
+      return this.fail(path, `must be an integer ${bounds} (got ${describe(value)})`);
+    }
+    return true;
+  }
+
+  oneOf<T>(path: string, value: T, options: readonly T[]): boolean {
+    return options.includes(value)
+      ? true
+      : this.fail(path, `must be one of ${options.map(o => `'${o}'`).join(', ')} (got ${describe(value)})`);
+  }
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `'${value}'` : String(value);
+}
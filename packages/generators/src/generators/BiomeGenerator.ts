@@ -1,32 +1,54 @@
-import { createNoise2D, NoiseFunction2D } from '../stub-simplex';
-import { GenerationContext, Generator } from '../types';
+import { createNoise2D, NoiseFunction2D } from 'simplex-noise';
+import {
+  BiomeBlendParams,
+  BiomeWeights,
+  GenerationContext,
+  Generator,
+  GeneratorConfig
+} from '../types.js';
+import { getLodGrid } from '../utils/grid.js';
+import { WaterGenerator } from './WaterGenerator.js';
 
 export class BiomeGenerator implements Generator<{
   temperature: Float32Array;
   moisture: Float32Array;
   biomemap: Uint8Array;
+  biomeWeights?: BiomeWeights;
 }> {
   private temperatureNoise: NoiseFunction2D;
   private moistureNoise: NoiseFunction2D;
+  // Ruidos para deformar las fronteras; creados después para no alterar los principales
+  private temperatureJitter: NoiseFunction2D;
+  private moistureJitter: NoiseFunction2D;
 
   constructor(tempPrng: () => number, moistPrng: () => number) {
     this.temperatureNoise = createNoise2D(tempPrng);
     this.moistureNoise = createNoise2D(moistPrng);
+    this.temperatureJitter = createNoise2D(tempPrng);
+    this.moistureJitter = createNoise2D(moistPrng);
   }
 
   generate(context: GenerationContext): {
     temperature: Float32Array;
     moisture: Float32Array;
     biomemap: Uint8Array;
+    biomeWeights?: BiomeWeights;
   } {
     const { chunkCoord, chunkSize, config } = context;
-    const { temperatureParams, moistureParams, biomeLookupTable } = config;
+    const { biomeLookupTable, biomeBlendParams, waterParams } = config;
 
-    const size = chunkSize * chunkSize;
+    // Con lod > 0 la rejilla es la reducida del heightmap (getLodGrid)
+    const { step, size: gridSize } = getLodGrid(chunkSize, context.lod ?? 0);
+    const size = gridSize * gridSize;
     const temperature = new Float32Array(size);
     const moisture = new Float32Array(size);
     const biomemap = new Uint8Array(size);
 
+    const topK = Math.max(1, Math.min(4, biomeBlendParams?.topK ?? 3));
+    const biomeWeights: BiomeWeights | undefined = biomeBlendParams
+      ? { k: topK, ids: new Uint8Array(size * topK), weights: new Float32Array(size * topK) }
+      : undefined;
+
     const worldStartX = chunkCoord.x * chunkSize;
     const worldStartZ = chunkCoord.z * chunkSize;
 
@@ -34,46 +56,132 @@ export class BiomeGenerator implements Generator<{
     // Esto se pasaría desde el WorldGenerator
     const heightmap = context.heightmap || new Float32Array(size);
 
-    for (let z = 0; z < chunkSize; z++) {
-      for (let x = 0; x < chunkSize; x++) {
-        const worldX = worldStartX + x;
-        const worldZ = worldStartZ + z;
-        const index = z * chunkSize + x;
+    // Distancia al agua (el watermap trae borde para que no haya cortes entre chunks)
+    const waterPadding = context.watermapPadding ?? 0;
+    const waterSize = chunkSize + waterPadding * 2;
+    const waterDistance = context.watermap && waterParams
+      ? WaterGenerator.distanceToWater(context.watermap, waterSize)
+      : null;
+    const { moistureRadius, moistureBoost } = waterParams
+      ? WaterGenerator.resolveParams(waterParams)
+      : { moistureRadius: 0, moistureBoost: 0 };
 
-        // Generar temperatura base
-        let temp = this.temperatureNoise(
-          worldX * temperatureParams.frequency,
-          worldZ * temperatureParams.frequency
-        );
-        // Normalizar a [0, 1]
-        temp = (temp + 1) * 0.5;
+    for (let z = 0; z < gridSize; z++) {
+      for (let x = 0; x < gridSize; x++) {
+        const worldX = worldStartX + x * step;
+        const worldZ = worldStartZ + z * step;
+        const index = z * gridSize + x;
 
-        // Ajustar por altitud (temperatura baja con altura)
-        const height = heightmap[index];
-        const heightAdjustment = height * temperatureParams.altitudeLapseRate;
-        temp = Math.max(0, Math.min(1, temp - heightAdjustment));
+        // Clima base: temperatura ajustada por altitud y humedad en [0, 1]
+        const climate = this.sampleClimate(worldX, worldZ, heightmap[index], config);
+        const temp = climate.temperature;
         temperature[index] = temp;
+        let moist = climate.moisture;
 
-        // Generar humedad
-        let moist = this.moistureNoise(
-          worldX * moistureParams.frequency,
-          worldZ * moistureParams.frequency
-        );
-        // Normalizar a [0, 1]
-        moist = (moist + 1) * 0.5;
+        // Más humedad cerca de ríos y lagos
+        if (waterDistance && moistureRadius > 0) {
+          const distance = waterDistance[(z + waterPadding) * waterSize + (x + waterPadding)];
+          if (distance < moistureRadius) {
+            moist = Math.min(1, moist + moistureBoost * (1 - distance / moistureRadius));
+          }
+        }
         moisture[index] = moist;
 
+        // Deformar las fronteras sin alterar los valores de clima guardados
+        const { lookupTemp, lookupMoist } = this.jitterClimate(worldX, worldZ, temp, moist, biomeBlendParams);
+
         // Determinar bioma usando tabla de Whittaker
         const biomeId = this.getBiomeFromWhittaker(
-          temp,
-          moist,
+          lookupTemp,
+          lookupMoist,
           biomeLookupTable
         );
         biomemap[index] = biomeId;
+
+        if (biomeWeights && biomeBlendParams) {
+          this.writeBiomeWeights(
+            lookupTemp,
+            lookupMoist,
+            biomeLookupTable,
+            biomeBlendParams,
+            biomeWeights,
+            index
+          );
+        }
       }
     }
 
-    return { temperature, moisture, biomemap };
+    return {
+      temperature,
+      moisture,
+      biomemap,
+      ...(biomeWeights && { biomeWeights })
+    };
+  }
+
+  /**
+   * Bioma en una posición del mundo sin el aporte de humedad de los ríos
+   * (para decisiones fuera del chunk, como los asentamientos)
+   */
+  sampleBiome(worldX: number, worldZ: number, height: number, config: GeneratorConfig): number {
+    const { temperature, moisture } = this.sampleClimate(worldX, worldZ, height, config);
+    const { lookupTemp, lookupMoist } = this.jitterClimate(
+      worldX,
+      worldZ,
+      temperature,
+      moisture,
+      config.biomeBlendParams
+    );
+    return this.getBiomeFromWhittaker(lookupTemp, lookupMoist, config.biomeLookupTable);
+  }
+
+  private sampleClimate(
+    worldX: number,
+    worldZ: number,
+    height: number,
+    config: GeneratorConfig
+  ): { temperature: number; moisture: number } {
+    const { temperatureParams, moistureParams } = config;
+
+    // Generar temperatura base
+    let temp = this.temperatureNoise(
+      worldX * temperatureParams.frequency,
+      worldZ * temperatureParams.frequency
+    );
+    // Normalizar a [0, 1]
+    temp = (temp + 1) * 0.5;
+
+    // Ajustar por altitud (temperatura baja con altura)
+    const heightAdjustment = height * temperatureParams.altitudeLapseRate;
+    temp = Math.max(0, Math.min(1, temp - heightAdjustment));
+
+    // Generar humedad
+    let moist = this.moistureNoise(
+      worldX * moistureParams.frequency,
+      worldZ * moistureParams.frequency
+    );
+    // Normalizar a [0, 1]
+    moist = (moist + 1) * 0.5;
+
+    return { temperature: temp, moisture: moist };
+  }
+
+  private jitterClimate(
+    worldX: number,
+    worldZ: number,
+    temp: number,
+    moist: number,
+    params?: BiomeBlendParams
+  ): { lookupTemp: number; lookupMoist: number } {
+    if (!params?.jitterStrength) {
+      return { lookupTemp: temp, lookupMoist: moist };
+    }
+
+    const { jitterStrength, jitterFrequency = 0.05 } = params;
+    return {
+      lookupTemp: temp + this.temperatureJitter(worldX * jitterFrequency, worldZ * jitterFrequency) * jitterStrength,
+      lookupMoist: moist + this.moistureJitter(worldX * jitterFrequency, worldZ * jitterFrequency) * jitterStrength
+    };
   }
 
   private getBiomeFromWhittaker(
@@ -81,14 +189,85 @@ export class BiomeGenerator implements Generator<{
     moisture: number,
     lookupTable: number[][]
   ): number {
-    // Dividir en 3 categorías de temperatura y humedad
-    const tempIndex = Math.floor(temperature * 3);
-    const moistIndex = Math.floor(moisture * 3);
+    // Dividir en tantas categorías como columnas (temperatura) y filas (humedad)
+    const rows = lookupTable.length;
+    const cols = lookupTable[0].length;
+    const tempIndex = Math.floor(temperature * cols);
+    const moistIndex = Math.floor(moisture * rows);
 
     // Clampear índices
-    const ti = Math.min(2, Math.max(0, tempIndex));
-    const mi = Math.min(2, Math.max(0, moistIndex));
+    const ti = Math.min(cols - 1, Math.max(0, tempIndex));
+    const mi = Math.min(rows - 1, Math.max(0, moistIndex));
 
     return lookupTable[mi][ti];
   }
+
+  /**
+   * Pesos continuos: cada eje reparte su peso entre la celda de la tabla y sus
+   * vecinas con un smoothstep de ancho blendWidth centrado en cada frontera
+   */
+  private writeBiomeWeights(
+    temperature: number,
+    moisture: number,
+    lookupTable: number[][],
+    params: BiomeBlendParams,
+    output: BiomeWeights,
+    cellIndex: number
+  ): void {
+    const rows = lookupTable.length;
+    const cols = lookupTable[0].length;
+    const tempAxis = BiomeGenerator.axisWeights(temperature, cols, params.blendWidth);
+    const moistAxis = BiomeGenerator.axisWeights(moisture, rows, params.blendWidth);
+
+    // Acumular por bioma: una misma id puede ocupar varias celdas de la tabla
+    const totals = new Map<number, number>();
+    for (const [mi, mw] of moistAxis) {
+      for (const [ti, tw] of tempAxis) {
+        const weight = mw * tw;
+        if (weight <= 0) continue;
+        const id = lookupTable[mi][ti];
+        totals.set(id, (totals.get(id) ?? 0) + weight);
+      }
+    }
+
+    const ranked = [...totals.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .slice(0, output.k);
+    const sum = ranked.reduce((acc, [, w]) => acc + w, 0);
+
+    const base = cellIndex * output.k;
+    ranked.forEach(([id, weight], j) => {
+      output.ids[base + j] = id;
+      output.weights[base + j] = weight / sum;
+    });
+  }
+
+  /**
+   * Peso de la celda actual y de sus vecinas en un eje de la tabla
+   */
+  private static axisWeights(
+    value: number,
+    cells: number,
+    blendWidth: number
+  ): Array<[number, number]> {
+    const position = Math.max(0, Math.min(1, value)) * cells;
+    const index = Math.min(cells - 1, Math.floor(position));
+    // Medio ancho en unidades de celda, sin solaparse entre fronteras
+    const half = Math.min(0.5, (blendWidth * cells) / 2);
+
+    const smooth = (x: number) => {
+      if (half <= 0) return x < 0 ? 0 : 1;
+      const t = Math.max(0, Math.min(1, (x + half) / (2 * half)));
+      return t * t * (3 - 2 * t);
+    };
+
+    const lower = index > 0 ? 1 - smooth(position - index) : 0;
+    const upper = index < cells - 1 ? smooth(position - (index + 1)) : 0;
+
+    return [
+      [index - 1, lower],
+      [index, 1 - lower - upper],
+      [index + 1, upper]
+    ];
+  }
 }
\ No newline at end of file
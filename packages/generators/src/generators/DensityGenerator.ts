@@ -0,0 +1,104 @@
+import { createNoise3D, NoiseFunction3D } from 'simplex-noise';
+import { DensityParams, GenerationContext, VoxelChunk } from '../types.js';
+
+type ResolvedDensityParams = Required<Omit<DensityParams, 'caves'>> & Pick<DensityParams, 'caves'>;
+
+/**
+ * Campo de densidad 3D a partir del heightmap: el heightmap da la forma
+ * general y el ruido 3D añade voladizos, arcos y (con caves) túneles
+ *
+ * Todo depende solo de la posición del mundo, así que los vóxeles del borde
+ * compartido entre dos chunks son idénticos y sus mallas encajan.
+ */
+export class DensityGenerator {
+  private noise3D: NoiseFunction3D;
+  private caveNoise: NoiseFunction3D;
+
+  constructor(prng: () => number) {
+    this.noise3D = createNoise3D(prng);
+    this.caveNoise = createNoise3D(prng);
+  }
+
+  static resolveParams(params: DensityParams): ResolvedDensityParams {
+    return {
+      verticalScale: 10,
+      falloff: 8,
+      persistence: 0.5,
+      lacunarity: 2,
+      ...params
+    };
+  }
+
+  /**
+   * Vóxeles del chunk (ver VoxelChunk)
+   *
+   * @param surface heightmap de (chunkSize + 1)² celdas: el del chunk más la
+   * primera fila y columna de los vecinos en +X y +Z
+   */
+  generate(context: GenerationContext, surface: Float32Array): VoxelChunk {
+    const { chunkCoord, chunkSize } = context;
+    const params = DensityGenerator.resolveParams(context.config.densityParams!);
+    const { minY, maxY, verticalScale, falloff, strength, caves } = params;
+
+    const size = { x: chunkSize + 1, y: Math.floor(maxY - minY) + 1, z: chunkSize + 1 };
+    const density = new Float32Array(size.x * size.y * size.z);
+
+    const worldStartX = chunkCoord.x * chunkSize;
+    const worldStartZ = chunkCoord.z * chunkSize;
+
+    for (let y = 0; y < size.y; y++) {
+      const worldY = minY + y;
+      for (let z = 0; z < size.z; z++) {
+        for (let x = 0; x < size.x; x++) {
+          const worldX = worldStartX + x;
+          const worldZ = worldStartZ + z;
+
+          // Positivo bajo la superficie, negativo sobre ella
+          let value = (surface[z * size.x + x] * verticalScale - worldY) / falloff;
+          if (strength !== 0) {
+            value += this.fractal(worldX, worldY, worldZ, params) * strength;
+          }
+
+          // Túneles: aire donde el ruido de cuevas cruza cero
+          if (caves) {
+            const f = caves.frequency;
+            const tunnel = (Math.abs(this.caveNoise(worldX * f, worldY * f, worldZ * f)) - caves.threshold) /
+              caves.threshold;
+            value = Math.min(value, tunnel);
+          }
+
+          density[(y * size.z + z) * size.x + x] = value;
+        }
+      }
+    }
+
+    return { size, minY, density };
+  }
+
+  /**
+   * Ruido 3D por octavas, normalizado a [-1, 1]
+   */
+  private fractal(
+    worldX: number,
+    worldY: number,
+    worldZ: number,
+    params: ResolvedDensityParams
+  ): number {
+    const { frequency, octaves, persistence, lacunarity } = params;
+
+    let value = 0;
+    let maxValue = 0;
+    let amp = 1;
+    let freq = frequency;
+
+    for (let o = 0; o < octaves; o++) {
+      value += this.noise3D(worldX * freq, worldY * freq, worldZ * freq) * amp;
+      maxValue += amp;
+
+      amp *= persistence;
+      freq *= lacunarity;
+    }
+
+    return value / maxValue;
+  }
+}
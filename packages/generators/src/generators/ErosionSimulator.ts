@@ -0,0 +1,322 @@
+import { ErosionParams } from '../types.js';
+import { createSeedHasher, SeedHasher } from '../utils/hash.js';
+
+type ResolvedErosionParams = Required<ErosionParams>;
+
+/**
+ * Erosión hidráulica (gotas) y térmica, idéntica a ambos lados de los bordes
+ *
+ * La simulación no se hace por chunk sino en ventanas fijas del mundo: una
+ * por cada punto de una rejilla de lado regionSize, que cubre regionSize
+ * celdas a cada lado del punto. La altura final de una celda mezcla las
+ * ventanas de los 4 puntos que la rodean con pesos bilineales (1 en su punto,
+ * 0 en el borde de la ventana, así que los cortes de cada ventana no se ven).
+ * Cada ventana solo depende de las alturas de partida, de la semilla y de su
+ * posición, de modo que el resultado en una celda es función de su posición
+ * en el mundo: dos chunks vecinos obtienen exactamente las mismas alturas en
+ * la zona que comparten, sea cual sea el orden en que se generen.
+ *
+ * Las gotas se anclan a celdas del mundo: cada celda decide con su propio
+ * hash si genera gotas y dónde empiezan. regionSize debería superar a
+ * dropletLifetime para que las gotas que pasan cerca del punto de una ventana
+ * se simulen completas.
+ */
+export class ErosionSimulator {
+  static resolveParams(params: ErosionParams): ResolvedErosionParams {
+    return {
+      regionSize: 32,
+      dropletLifetime: 24,
+      inertia: 0.05,
+      sedimentCapacity: 4,
+      erodeSpeed: 0.3,
+      depositSpeed: 0.3,
+      evaporateSpeed: 0.02,
+      talus: 0.02,
+      thermalRate: 0.5,
+      ...params
+    };
+  }
+
+  /**
+   * Borde de alturas sin erosionar que necesita erode() alrededor del área
+   * que erosiona: una ventana puede empezar hasta 2 * regionSize - 1 celdas antes
+   */
+  static getPadding(params: ErosionParams): number {
+    return this.resolveParams(params).regionSize * 2;
+  }
+
+  /**
+   * Erosiona in-place el heightmap salvo su borde de getPadding(params)
+   * celdas, que solo aporta las alturas de partida de las ventanas
+   */
+  static erode(
+    heightmap: Float32Array,
+    size: number,
+    origin: { x: number; z: number }, // coordenada de mundo de la celda (0, 0)
+    chunkSize: number,
+    seed: number,
+    params: ErosionParams,
+    hasher: SeedHasher = createSeedHasher()
+  ): void {
+    const resolved = this.resolveParams(params);
+    const { regionSize } = resolved;
+    const padding = this.getPadding(params);
+    const areaSize = size - padding * 2;
+    if (areaSize <= 0) return;
+
+    // Área erosionada en coordenadas del mundo (inclusiva)
+    const minX = origin.x + padding;
+    const minZ = origin.z + padding;
+    const maxX = minX + areaSize - 1;
+    const maxZ = minZ + areaSize - 1;
+
+    const windowSize = regionSize * 2 + 1;
+    const window = new Float32Array(windowSize * windowSize);
+    const eroded = new Float32Array(areaSize * areaSize);
+
+    // Mismo orden de ventanas para cada celda en cualquier chunk: la suma en
+    // coma flotante da exactamente el mismo resultado
+    for (let pointZ = Math.floor(minZ / regionSize); pointZ <= Math.ceil(maxZ / regionSize); pointZ++) {
+      for (let pointX = Math.floor(minX / regionSize); pointX <= Math.ceil(maxX / regionSize); pointX++) {
+        const windowOrigin = {
+          x: (pointX - 1) * regionSize,
+          z: (pointZ - 1) * regionSize
+        };
+
+        for (let z = 0; z < windowSize; z++) {
+          const row = (windowOrigin.z + z - origin.z) * size + windowOrigin.x - origin.x;
+          window.set(heightmap.subarray(row, row + windowSize), z * windowSize);
+        }
+
+        if (resolved.hydraulicIterations > 0) {
+          this.hydraulic(window, windowSize, windowOrigin, chunkSize, seed, resolved, hasher);
+        }
+        if (resolved.thermalIterations > 0) {
+          this.thermal(window, windowSize, resolved);
+        }
+
+        // Pesos bilineales: solo las celdas a menos de regionSize del punto
+        const startX = Math.max(minX, windowOrigin.x + 1);
+        const endX = Math.min(maxX, windowOrigin.x + windowSize - 2);
+        const startZ = Math.max(minZ, windowOrigin.z + 1);
+        const endZ = Math.min(maxZ, windowOrigin.z + windowSize - 2);
+        for (let worldZ = startZ; worldZ <= endZ; worldZ++) {
+          const weightZ = 1 - Math.abs(worldZ - pointZ * regionSize) / regionSize;
+          for (let worldX = startX; worldX <= endX; worldX++) {
+            const weightX = 1 - Math.abs(worldX - pointX * regionSize) / regionSize;
+            eroded[(worldZ - minZ) * areaSize + worldX - minX] +=
+              weightX * weightZ * window[(worldZ - windowOrigin.z) * windowSize + worldX - windowOrigin.x];
+          }
+        }
+      }
+    }
+
+    for (let z = 0; z < areaSize; z++) {
+      heightmap.set(eroded.subarray(z * areaSize, (z + 1) * areaSize), (z + padding) * size + padding);
+    }
+  }
+
+  /**
+   * Erosión hidráulica por gotas
+   */
+  static hydraulic(
+    heightmap: Float32Array,
+    size: number,
+    origin: { x: number; z: number },
+    chunkSize: number,
+    seed: number,
+    params: ResolvedErosionParams,
+    hasher: SeedHasher = createSeedHasher()
+  ): void {
+    // Densidad de gotas por celda del mundo
+    const density = params.hydraulicIterations / (chunkSize * chunkSize);
+    const random = (...inputs: number[]) =>
+      (hasher.hash(seed, 'erosion', ...inputs) >>> 0) / 4294967296;
+
+    for (let z = 0; z < size - 1; z++) {
+      for (let x = 0; x < size - 1; x++) {
+        const worldX = origin.x + x;
+        const worldZ = origin.z + z;
+
+        let droplets = Math.floor(density);
+        if (random(worldX, worldZ, -1) < density - droplets) {
+          droplets++;
+        }
+
+        for (let d = 0; d < droplets; d++) {
+          this.simulateDroplet(
+            heightmap,
+            size,
+            x + random(worldX, worldZ, d, 0),
+            z + random(worldX, worldZ, d, 1),
+            params
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Erosión térmica: el material por encima del talud se desliza a vecinos más bajos
+   * Usa doble buffer para que el resultado no dependa del orden de recorrido
+   */
+  static thermal(
+    heightmap: Float32Array,
+    size: number,
+    params: ResolvedErosionParams
+  ): void {
+    const { talus, thermalRate } = params;
+    const delta = new Float32Array(heightmap.length);
+    const neighbours = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+    for (let iteration = 0; iteration < params.thermalIterations; iteration++) {
+      delta.fill(0);
+
+      for (let z = 0; z < size; z++) {
+        for (let x = 0; x < size; x++) {
+          const index = z * size + x;
+          const h = heightmap[index];
+
+          let totalExcess = 0;
+          let maxExcess = 0;
+          for (const [dx, dz] of neighbours) {
+            const nx = x + dx;
+            const nz = z + dz;
+            if (nx < 0 || nx >= size || nz < 0 || nz >= size) continue;
+            const diff = h - heightmap[nz * size + nx];
+            if (diff > talus) {
+              totalExcess += diff - talus;
+              maxExcess = Math.max(maxExcess, diff - talus);
+            }
+          }
+          if (totalExcess === 0) continue;
+
+          // Mover como mucho la mitad del exceso para no invertir la pendiente
+          const moved = maxExcess * thermalRate * 0.5;
+          delta[index] -= moved;
+
+          for (const [dx, dz] of neighbours) {
+            const nx = x + dx;
+            const nz = z + dz;
+            if (nx < 0 || nx >= size || nz < 0 || nz >= size) continue;
+            const diff = h - heightmap[nz * size + nx];
+            if (diff > talus) {
+              delta[nz * size + nx] += moved * (diff - talus) / totalExcess;
+            }
+          }
+        }
+      }
+
+      for (let i = 0; i < heightmap.length; i++) {
+        heightmap[i] += delta[i];
+      }
+    }
+  }
+
+  private static simulateDroplet(
+    heightmap: Float32Array,
+    size: number,
+    startX: number,
+    startZ: number,
+    params: ResolvedErosionParams
+  ): void {
+    const gravity = 4;
+    const minSlope = 0.001;
+
+    let posX = startX;
+    let posZ = startZ;
+    let dirX = 0;
+    let dirZ = 0;
+    let speed = 1;
+    let water = 1;
+    let sediment = 0;
+
+    for (let step = 0; step < params.dropletLifetime; step++) {
+      const cellX = Math.floor(posX);
+      const cellZ = Math.floor(posZ);
+      const offsetX = posX - cellX;
+      const offsetZ = posZ - cellZ;
+
+      const { height, gradientX, gradientZ } = this.heightAndGradient(heightmap, size, posX, posZ);
+
+      // Dirección con inercia, bajando por el gradiente
+      dirX = dirX * params.inertia - gradientX * (1 - params.inertia);
+      dirZ = dirZ * params.inertia - gradientZ * (1 - params.inertia);
+      const length = Math.sqrt(dirX * dirX + dirZ * dirZ);
+      if (length === 0) break;
+      dirX /= length;
+      dirZ /= length;
+
+      posX += dirX;
+      posZ += dirZ;
+
+      // La gota salió del área simulada
+      if (posX < 0 || posX >= size - 1 || posZ < 0 || posZ >= size - 1) break;
+
+      const newHeight = this.heightAndGradient(heightmap, size, posX, posZ).height;
+      const deltaHeight = newHeight - height;
+
+      const capacity = Math.max(-deltaHeight, minSlope) * speed * water * params.sedimentCapacity;
+
+      if (sediment > capacity || deltaHeight > 0) {
+        // Depositar: rellenar el hoyo si sube, o el exceso sobre la capacidad
+        const amount = deltaHeight > 0
+          ? Math.min(deltaHeight, sediment)
+          : (sediment - capacity) * params.depositSpeed;
+        sediment -= amount;
+        this.distribute(heightmap, size, cellX, cellZ, offsetX, offsetZ, amount);
+      } else {
+        // Erosionar sin cavar más hondo que el desnivel
+        const amount = Math.min((capacity - sediment) * params.erodeSpeed, -deltaHeight);
+        sediment += amount;
+        this.distribute(heightmap, size, cellX, cellZ, offsetX, offsetZ, -amount);
+      }
+
+      speed = Math.sqrt(Math.max(0, speed * speed - deltaHeight * gravity));
+      water *= 1 - params.evaporateSpeed;
+    }
+  }
+
+  /**
+   * Reparte una cantidad entre las 4 celdas de la posición (bilineal)
+   */
+  private static distribute(
+    heightmap: Float32Array,
+    size: number,
+    cellX: number,
+    cellZ: number,
+    offsetX: number,
+    offsetZ: number,
+    amount: number
+  ): void {
+    const index = cellZ * size + cellX;
+    heightmap[index] += amount * (1 - offsetX) * (1 - offsetZ);
+    heightmap[index + 1] += amount * offsetX * (1 - offsetZ);
+    heightmap[index + size] += amount * (1 - offsetX) * offsetZ;
+    heightmap[index + size + 1] += amount * offsetX * offsetZ;
+  }
+
+  private static heightAndGradient(
+    heightmap: Float32Array,
+    size: number,
+    posX: number,
+    posZ: number
+  ): { height: number; gradientX: number; gradientZ: number } {
+    const cellX = Math.floor(posX);
+    const cellZ = Math.floor(posZ);
+    const x = posX - cellX;
+    const z = posZ - cellZ;
+
+    const index = cellZ * size + cellX;
+    const h00 = heightmap[index];
+    const h10 = heightmap[index + 1];
+    const h01 = heightmap[index + size];
+    const h11 = heightmap[index + size + 1];
+
+    return {
+      height: h00 * (1 - x) * (1 - z) + h10 * x * (1 - z) + h01 * (1 - x) * z + h11 * x * z,
+      gradientX: (h10 - h00) * (1 - z) + (h11 - h01) * z,
+      gradientZ: (h01 - h00) * (1 - x) + (h11 - h10) * x
+    };
+  }
+}
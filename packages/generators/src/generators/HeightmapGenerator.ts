@@ -1,19 +1,32 @@
-import { createNoise2D, NoiseFunction2D } from '../stub-simplex';
-import { GenerationContext, Generator } from '../types';
+import { createNoise2D, NoiseFunction2D } from 'simplex-noise';
+import { GenerationContext, Generator, GeneratorConfig } from '../types.js';
+import { getLodGrid } from '../utils/grid.js';
 
 export class HeightmapGenerator implements Generator<Float32Array> {
   private noise2D: NoiseFunction2D;
+  // Ruidos independientes para domain warping y continentes.
+  // Se crean después del principal para no alterar su secuencia.
+  private warpNoiseX: NoiseFunction2D;
+  private warpNoiseZ: NoiseFunction2D;
+  private continentNoise: NoiseFunction2D;
 
   constructor(prng: () => number) {
     this.noise2D = createNoise2D(prng);
+    this.warpNoiseX = createNoise2D(prng);
+    this.warpNoiseZ = createNoise2D(prng);
+    this.continentNoise = createNoise2D(prng);
   }
 
-  generate(context: GenerationContext): Float32Array {
+  /**
+   * Genera con padding (1 por defecto) para bordes seamless; etapas como la
+   * erosión necesitan un borde más ancho
+   */
+  generate(context: GenerationContext, padding: number = 1): Float32Array {
     const { chunkCoord, chunkSize, config } = context;
-    const { frequency, octaves, persistence, lacunarity, amplitude } = config.heightmapParams;
+    if (context.lod) return this.generateLod(context, context.lod);
+
+    const params = config.heightmapParams;
 
-    // Generar con padding de 1 para bordes seamless
-    const padding = 1;
     const dataSize = chunkSize + padding * 2;
     const heightmap = new Float32Array(dataSize * dataSize);
 
@@ -25,30 +38,211 @@ export class HeightmapGenerator implements Generator<Float32Array> {
         const worldX = worldStartX + x;
         const worldZ = worldStartZ + z;
 
-        // Fractal Brownian Motion (FBM) para múltiples octavas
-        let height = 0;
-        let maxValue = 0;
-        let amp = amplitude;
-        let freq = frequency;
+        heightmap[z * dataSize + x] = this.sampleHeight(worldX, worldZ, params);
+      }
+    }
 
-        for (let o = 0; o < octaves; o++) {
-          const value = this.noise2D(worldX * freq, worldZ * freq);
-          height += value * amp;
-          maxValue += amp;
+    return heightmap;
+  }
 
-          amp *= persistence;
-          freq *= lacunarity;
-        }
+  /**
+   * Rejilla reducida de getLodGrid, sin padding: las muestras caen en las
+   * mismas posiciones del mundo que las celdas de lod 0, así que el borde
+   * coincide con el de los vecinos de cualquier nivel
+   */
+  private generateLod(context: GenerationContext, lod: number): Float32Array {
+    const { chunkCoord, chunkSize, config } = context;
+    const { step, size } = getLodGrid(chunkSize, lod);
+    const heightmap = new Float32Array(size * size);
 
-        // Normalizar al rango [-1, 1]
-        height /= maxValue;
-        heightmap[z * dataSize + x] = height;
+    const worldStartX = chunkCoord.x * chunkSize;
+    const worldStartZ = chunkCoord.z * chunkSize;
+
+    for (let z = 0; z < size; z++) {
+      for (let x = 0; x < size; x++) {
+        heightmap[z * size + x] = this.sampleHeight(
+          worldStartX + x * step,
+          worldStartZ + z * step,
+          config.heightmapParams
+        );
       }
     }
 
     return heightmap;
   }
 
+  /**
+   * Altura en una posición del mundo, en el rango aproximado [-1, 1]
+   */
+  sampleHeight(
+    worldX: number,
+    worldZ: number,
+    params: GeneratorConfig['heightmapParams']
+  ): number {
+    let sampleX = worldX;
+    let sampleZ = worldZ;
+
+    // Domain warping: desplazar las coordenadas con otro ruido
+    if (params.domainWarp && params.domainWarp.strength !== 0) {
+      const { frequency, strength, octaves = 2 } = params.domainWarp;
+      sampleX += this.fractal(this.warpNoiseX, worldX, worldZ, frequency, octaves, 0.5, 2) * strength;
+      sampleZ += this.fractal(this.warpNoiseZ, worldX, worldZ, frequency, octaves, 0.5, 2) * strength;
+    }
+
+    let height: number;
+    switch (params.noiseMode ?? 'fbm') {
+      case 'ridged':
+        height = this.ridged(sampleX, sampleZ, params);
+        break;
+      case 'billow':
+        height = this.billow(sampleX, sampleZ, params);
+        break;
+      case 'fbm':
+      default:
+        height = this.fbm(sampleX, sampleZ, params);
+        break;
+    }
+
+    // Continentalidad: hundir las zonas oceánicas
+    if (params.continentalness) {
+      const { frequency, threshold, coastWidth, oceanDepth } = params.continentalness;
+      const c = this.continentNoise(worldX * frequency, worldZ * frequency);
+      const land = HeightmapGenerator.smoothstep(
+        threshold - coastWidth,
+        threshold + coastWidth,
+        c
+      );
+      height = -oceanDepth + (height + oceanDepth) * land;
+    }
+
+    return height;
+  }
+
+  /**
+   * Fractal Brownian Motion (FBM) para múltiples octavas
+   */
+  private fbm(
+    worldX: number,
+    worldZ: number,
+    params: GeneratorConfig['heightmapParams']
+  ): number {
+    const { frequency, octaves, persistence, lacunarity, amplitude } = params;
+
+    let height = 0;
+    let maxValue = 0;
+    let amp = amplitude;
+    let freq = frequency;
+
+    for (let o = 0; o < octaves; o++) {
+      const value = this.noise2D(worldX * freq, worldZ * freq);
+      height += value * amp;
+      maxValue += amp;
+
+      amp *= persistence;
+      freq *= lacunarity;
+    }
+
+    // Normalizar al rango [-1, 1]
+    return height / maxValue;
+  }
+
+  /**
+   * Ridged multifractal (Musgrave): crestas afiladas para cordilleras
+   */
+  private ridged(
+    worldX: number,
+    worldZ: number,
+    params: GeneratorConfig['heightmapParams']
+  ): number {
+    const { frequency, octaves, persistence, lacunarity, amplitude } = params;
+    const offset = params.ridgeOffset ?? 1;
+    const gain = params.ridgeGain ?? 2;
+
+    let height = 0;
+    let maxValue = 0;
+    let amp = amplitude;
+    let freq = frequency;
+    let weight = 1;
+
+    for (let o = 0; o < octaves; o++) {
+      // Invertir el valor absoluto crea crestas donde el ruido cruza cero
+      let signal = offset - Math.abs(this.noise2D(worldX * freq, worldZ * freq));
+      signal *= signal;
+      // Las octavas altas solo aportan detalle sobre las crestas
+      signal *= weight;
+      weight = Math.max(0, Math.min(1, signal * gain));
+
+      height += signal * amp;
+      maxValue += amp * offset * offset;
+
+      amp *= persistence;
+      freq *= lacunarity;
+    }
+
+    // [0, 1] -> [-1, 1]
+    return (height / maxValue) * 2 - 1;
+  }
+
+  /**
+   * Billow: valor absoluto del ruido, colinas redondeadas con valles marcados
+   */
+  private billow(
+    worldX: number,
+    worldZ: number,
+    params: GeneratorConfig['heightmapParams']
+  ): number {
+    const { frequency, octaves, persistence, lacunarity, amplitude } = params;
+
+    let height = 0;
+    let maxValue = 0;
+    let amp = amplitude;
+    let freq = frequency;
+
+    for (let o = 0; o < octaves; o++) {
+      const value = Math.abs(this.noise2D(worldX * freq, worldZ * freq)) * 2 - 1;
+      height += value * amp;
+      maxValue += amp;
+
+      amp *= persistence;
+      freq *= lacunarity;
+    }
+
+    return height / maxValue;
+  }
+
+  /**
+   * FBM normalizado genérico para ruidos auxiliares
+   */
+  private fractal(
+    noise: NoiseFunction2D,
+    worldX: number,
+    worldZ: number,
+    frequency: number,
+    octaves: number,
+    persistence: number,
+    lacunarity: number
+  ): number {
+    let value = 0;
+    let maxValue = 0;
+    let amp = 1;
+    let freq = frequency;
+
+    for (let o = 0; o < octaves; o++) {
+      value += noise(worldX * freq, worldZ * freq) * amp;
+      maxValue += amp;
+      amp *= persistence;
+      freq *= lacunarity;
+    }
+
+    return maxValue > 0 ? value / maxValue : 0;
+  }
+
+  private static smoothstep(edge0: number, edge1: number, x: number): number {
+    if (edge0 === edge1) return x < edge0 ? 0 : 1;
+    const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+    return t * t * (3 - 2 * t);
+  }
+
   /**
    * Extrae el área central sin padding
    */
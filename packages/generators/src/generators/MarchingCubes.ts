@@ -0,0 +1,80 @@
+import { TriMesh, VoxelChunk } from '../types.js';
+import { CORNER_OFFSETS, EDGE_CORNERS, TRI_TABLE } from './marchingCubesTables.js';
+
+/**
+ * Isosuperficie de un campo de vóxeles con marching cubes
+ *
+ * Los vértices se comparten entre cubos vecinos (uno por arista de la
+ * rejilla), así que la malla es cerrada dentro del chunk y sirve directamente
+ * como collider 'trimesh'. Los triángulos miran hacia el aire.
+ */
+export class MarchingCubes {
+  static polygonize(voxels: VoxelChunk, isoLevel: number = 0): TriMesh {
+    const { size, minY, density } = voxels;
+    const sample = (x: number, y: number, z: number) => density[(y * size.z + z) * size.x + x];
+
+    const vertices: number[] = [];
+    const indices: number[] = [];
+    // Vértice ya creado en cada arista de la rejilla (3 por punto: ejes X, Y, Z)
+    const edgeVertex = new Int32Array(size.x * size.y * size.z * 3).fill(-1);
+
+    const values = new Float32Array(8);
+    const cubeVertices = new Int32Array(12);
+
+    for (let y = 0; y < size.y - 1; y++) {
+      for (let z = 0; z < size.z - 1; z++) {
+        for (let x = 0; x < size.x - 1; x++) {
+          let cubeIndex = 0;
+          for (let corner = 0; corner < 8; corner++) {
+            const [dx, dy, dz] = CORNER_OFFSETS[corner];
+            values[corner] = sample(x + dx, y + dy, z + dz);
+            if (values[corner] < isoLevel) cubeIndex |= 1 << corner;
+          }
+
+          const triangles = TRI_TABLE[cubeIndex];
+          if (triangles.length === 0) continue;
+
+          for (let edge = 0; edge < 12; edge++) {
+            cubeVertices[edge] = -1;
+          }
+
+          for (const edge of triangles) {
+            if (cubeVertices[edge] !== -1) continue;
+
+            const [a, b] = EDGE_CORNERS[edge];
+            const pa = CORNER_OFFSETS[a];
+            const pb = CORNER_OFFSETS[b];
+
+            // Identificar la arista por su extremo menor y su eje
+            const axis = pa[0] !== pb[0] ? 0 : pa[1] !== pb[1] ? 1 : 2;
+            const sx = x + Math.min(pa[0], pb[0]);
+            const sy = y + Math.min(pa[1], pb[1]);
+            const sz = z + Math.min(pa[2], pb[2]);
+            const key = ((sy * size.z + sz) * size.x + sx) * 3 + axis;
+
+            if (edgeVertex[key] === -1) {
+              const t = (isoLevel - values[a]) / (values[b] - values[a]);
+              edgeVertex[key] = vertices.length / 3;
+              vertices.push(
+                x + pa[0] + t * (pb[0] - pa[0]),
+                minY + y + pa[1] + t * (pb[1] - pa[1]),
+                z + pa[2] + t * (pb[2] - pa[2])
+              );
+            }
+            cubeVertices[edge] = edgeVertex[key];
+          }
+
+          for (let i = 0; i < triangles.length; i += 3) {
+            indices.push(
+              cubeVertices[triangles[i]],
+              cubeVertices[triangles[i + 1]],
+              cubeVertices[triangles[i + 2]]
+            );
+          }
+        }
+      }
+    }
+
+    return { vertices: new Float32Array(vertices), indices: new Uint32Array(indices) };
+  }
+}
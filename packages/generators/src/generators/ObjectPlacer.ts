@@ -1,194 +1,447 @@
-import { ObjectInstance, GenerationContext } from '../types';
-import { generateHash } from '../utils/hash';
+import {
+  BiomeWeights,
+  ObjectInstance,
+  ObjectClusterParams,
+  ObjectPlacementRule,
+  StageContext
+} from '../types.js';
+import { createSeedHasher, SeedHasher } from '../utils/hash.js';
+import {
+  Quaternion,
+  multiplyQuaternions,
+  normalizeQuaternion,
+  quaternionFromAxisAngle,
+  quaternionFromUnitVectors
+} from '../utils/quaternion.js';
+
+// Punto de Poisson en coordenadas del mundo; (cellX, cellZ, round) lo
+// identifica igual en cualquier chunk que lo simule
+interface PoissonPoint {
+  x: number;
+  z: number;
+  cellX: number;
+  cellZ: number;
+  round: number;
+}
+
+interface Candidate extends PoissonPoint {
+  type: string;
+  seed: number; // semilla del tipo
+  priority: number; // resuelve las exclusiones entre tipos
+  spawn: number; // sorteo de aparición, común al punto y a sus agrupaciones
+}
+
+// Consulta de candidatos de un tipo a menos de `radius` de un punto del mundo
+type CandidateQuery = (x: number, z: number, radius: number) => Candidate[];
 
 export class ObjectPlacer {
   /**
-   * Poisson Disk Sampling para distribución natural
+   * Borde del heightmap que usa sampleTerrain para no repetir las alturas del
+   * borde del chunk: la interpolación y las diferencias centrales leen una
+   * celda de los vecinos hacia -x/-z y dos hacia +x/+z
+   */
+  static readonly TERRAIN_PADDING = 2;
+
+  /**
+   * Poisson Disk Sampling sin costuras entre chunks
+   *
+   * Los puntos se lanzan sobre una rejilla del mundo de celdas de lado
+   * minDistance, en 4 fases (paridad x/z de la celda) y varias rondas. Las
+   * celdas de una misma fase están separadas al menos minDistance, así que su
+   * resultado no depende del orden de recorrido, y cada intento usa un hash de
+   * la celda del mundo. Un error en el borde del área simulada solo avanza una
+   * celda por fase, de modo que con 4 * rounds celdas de margen el interior del
+   * chunk es idéntico lo genere quien lo genere y en el orden que sea.
+   *
+   * @returns puntos en coordenadas locales del chunk
    */
   static poissonDiskSampling(
+    chunkCoord: { x: number; z: number },
     chunkSize: number,
     minDistance: number,
-    maxAttempts: number = 30,
-    prng: () => number
+    seed: number,
+    hasher: SeedHasher = createSeedHasher(),
+    rounds: number = 2,
+    maxAttempts: number = 4
   ): Array<{ x: number; z: number }> {
-    const cellSize = minDistance / Math.sqrt(2);
-    const gridWidth = Math.ceil(chunkSize / cellSize);
-    const grid: number[][] = Array(gridWidth)
-      .fill(null)
-      .map(() => Array(gridWidth).fill(-1));
-
-    const points: Array<{ x: number; z: number }> = [];
-    const activeList: number[] = [];
-
-    // Agregar primer punto aleatorio
-    const firstPoint = {
-      x: prng() * chunkSize,
-      z: prng() * chunkSize
-    };
-    points.push(firstPoint);
-    activeList.push(0);
-
-    const gridX = Math.floor(firstPoint.x / cellSize);
-    const gridZ = Math.floor(firstPoint.z / cellSize);
-    grid[gridZ][gridX] = 0;
-
-    while (activeList.length > 0) {
-      const randomIndex = Math.floor(prng() * activeList.length);
-      const pointIndex = activeList[randomIndex];
-      const point = points[pointIndex];
-
-      let found = false;
-
-      for (let k = 0; k < maxAttempts; k++) {
-        const angle = prng() * Math.PI * 2;
-        const distance = minDistance + prng() * minDistance;
-
-        const newPoint = {
-          x: point.x + Math.cos(angle) * distance,
-          z: point.z + Math.sin(angle) * distance
-        };
-
-        if (
-          newPoint.x >= 0 &&
-          newPoint.x < chunkSize &&
-          newPoint.z >= 0 &&
-          newPoint.z < chunkSize
-        ) {
-          const newGridX = Math.floor(newPoint.x / cellSize);
-          const newGridZ = Math.floor(newPoint.z / cellSize);
-
-          if (this.isValidPoint(newPoint, points, grid, gridWidth, cellSize, minDistance)) {
-            points.push(newPoint);
-            activeList.push(points.length - 1);
-            grid[newGridZ][newGridX] = points.length - 1;
-            found = true;
-            break;
+    const originX = chunkCoord.x * chunkSize;
+    const originZ = chunkCoord.z * chunkSize;
+    return this.samplePoisson(chunkCoord, chunkSize, minDistance, seed, hasher, 0, rounds, maxAttempts)
+      .map(point => ({ x: point.x - originX, z: point.z - originZ }));
+  }
+
+  /**
+   * Muestreo de poissonDiskSampling en coordenadas del mundo, incluidos los
+   * puntos a menos de `border` del chunk (idénticos a los de los vecinos)
+   */
+  private static samplePoisson(
+    chunkCoord: { x: number; z: number },
+    chunkSize: number,
+    minDistance: number,
+    seed: number,
+    hasher: SeedHasher,
+    border: number = 0,
+    rounds: number = 2,
+    maxAttempts: number = 4
+  ): PoissonPoint[] {
+    const cellSize = minDistance;
+    const margin = 4 * rounds + Math.ceil(border / cellSize);
+    const originX = chunkCoord.x * chunkSize;
+    const originZ = chunkCoord.z * chunkSize;
+
+    const firstCellX = Math.floor(originX / cellSize) - margin;
+    const firstCellZ = Math.floor(originZ / cellSize) - margin;
+    const width = Math.floor((originX + chunkSize) / cellSize) + margin - firstCellX + 1;
+    const depth = Math.floor((originZ + chunkSize) / cellSize) + margin - firstCellZ + 1;
+
+    // Puntos aceptados por celda
+    const cells: PoissonPoint[][] = Array.from({ length: width * depth }, () => []);
+
+    const fits = (x: number, z: number, cx: number, cz: number) => {
+      for (let dz = -1; dz <= 1; dz++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx;
+          const nz = cz + dz;
+          if (nx < 0 || nx >= width || nz < 0 || nz >= depth) continue;
+          for (const other of cells[nz * width + nx]) {
+            if ((other.x - x) ** 2 + (other.z - z) ** 2 < minDistance * minDistance) {
+              return false;
+            }
           }
         }
       }
+      return true;
+    };
 
-      if (!found) {
-        activeList.splice(randomIndex, 1);
-      }
-    }
+    for (let round = 0; round < rounds; round++) {
+      for (let phase = 0; phase < 4; phase++) {
+        for (let cz = 0; cz < depth; cz++) {
+          const worldCellZ = firstCellZ + cz;
+          if (Math.abs(worldCellZ % 2) !== phase >> 1) continue;
 
-    return points;
-  }
+          for (let cx = 0; cx < width; cx++) {
+            const worldCellX = firstCellX + cx;
+            if (Math.abs(worldCellX % 2) !== (phase & 1)) continue;
 
-  private static isValidPoint(
-    point: { x: number; z: number },
-    points: Array<{ x: number; z: number }>,
-    grid: number[][],
-    gridWidth: number,
-    cellSize: number,
-    minDistance: number
-  ): boolean {
-    const gridX = Math.floor(point.x / cellSize);
-    const gridZ = Math.floor(point.z / cellSize);
-
-    const searchRadius = 2;
-    for (let dz = -searchRadius; dz <= searchRadius; dz++) {
-      for (let dx = -searchRadius; dx <= searchRadius; dx++) {
-        const checkX = gridX + dx;
-        const checkZ = gridZ + dz;
-
-        if (
-          checkX >= 0 &&
-          checkX < gridWidth &&
-          checkZ >= 0 &&
-          checkZ < gridWidth
-        ) {
-          const pointIndex = grid[checkZ][checkX];
-          if (pointIndex !== -1) {
-            const otherPoint = points[pointIndex];
-            const dist = Math.sqrt(
-              (point.x - otherPoint.x) ** 2 + (point.z - otherPoint.z) ** 2
-            );
-            if (dist < minDistance) {
-              return false;
+            for (let attempt = 0; attempt < maxAttempts; attempt++) {
+              const x = (worldCellX + hasher.unit(seed, worldCellX, worldCellZ, round, attempt, 0)) * cellSize;
+              const z = (worldCellZ + hasher.unit(seed, worldCellX, worldCellZ, round, attempt, 1)) * cellSize;
+
+              if (fits(x, z, cx, cz)) {
+                cells[cz * width + cx].push({ x, z, cellX: worldCellX, cellZ: worldCellZ, round });
+                break;
+              }
             }
           }
         }
       }
     }
 
-    return true;
+    // Quedarse con los puntos dentro del chunk y su borde
+    const points: PoissonPoint[] = [];
+    for (const cell of cells) {
+      for (const point of cell) {
+        const x = point.x - originX;
+        const z = point.z - originZ;
+        if (x >= -border && x < chunkSize + border && z >= -border && z < chunkSize + border) {
+          points.push(point);
+        }
+      }
+    }
+
+    return points;
   }
 
   /**
-   * Colocar objetos basado en biomas
+   * Colocar objetos según las reglas de cada bioma (BiomeConfig.objects)
+   *
+   * Cada tipo de objeto tiene su propio muestreo de Poisson con su minSpacing,
+   * continuo entre chunks, así que el espaciado entre objetos del mismo tipo se
+   * cumple también a través de los bordes. Cada punto se acepta o no con
+   * hashes de su celda del mundo y con los datos del chunk en ese punto:
+   * - con biomeWeights, el bioma se sortea según los pesos de mezcla
+   * - la regla del tipo debe existir en el bioma y aceptar el terreno
+   * - probabilidad objectDensity × peso de la regla / suma de pesos de las
+   *   reglas del bioma que aceptan el terreno
+   * - con cluster, también se acepta si está entre los `count` puntos del
+   *   tipo más cercanos a otro punto que supera ese sorteo (a menos de `radius`)
+   * - las exclusiones descartan el punto si hay un candidato del otro tipo con
+   *   más prioridad dentro del radio; se comparan candidatos, no objetos
+   *   colocados, para no depender de datos de los vecinos (por eso aclaran
+   *   algo más de lo estrictamente necesario)
+   * Las celdas marcadas en `blocked` (caminos, edificios) quedan libres.
+   * Las semillas de cada tipo salen de la semilla de la etapa (context.seed).
+   *
+   * @param heightmap heightmap con TERRAIN_PADDING celdas de borde
    */
   static placeObjects(
-    context: GenerationContext,
+    context: StageContext,
     biomemap: Uint8Array,
     heightmap: Float32Array,
-    prng: () => number
+    biomeWeights?: BiomeWeights,
+    blocked?: Uint8Array
   ): ObjectInstance[] {
-    const objects: ObjectInstance[] = [];
-    const { chunkCoord, chunkSize, config } = context;
-
-    // Definir tipos de objetos por bioma
-    const biomeObjects: { [biomeId: number]: string[] } = {
-      0: ['rock_small'], // Tundra
-      1: ['grass_tall'], // Pradera
-      2: ['cactus', 'rock_desert'], // Desierto
-      3: ['tree_pine', 'tree_spruce'], // Bosque Boreal
-      4: ['tree_oak', 'tree_birch'], // Bosque Templado
-      5: ['tree_acacia', 'rock_savanna'], // Sabana
-      6: ['tree_pine_tall'], // Taiga
-      7: ['tree_jungle', 'bush_fern'], // Selva Templada
-      8: ['tree_palm', 'tree_tropical', 'bush_tropical'] // Selva Tropical
-    };
+    const { chunkCoord, chunkSize, config, hasher } = context;
+    const biomes = new Map(config.biomes.map(biome => [biome.id, biome]));
+    const originX = chunkCoord.x * chunkSize;
+    const originZ = chunkCoord.z * chunkSize;
+
+    // Tipos que pueden aparecer en el chunk y los que los excluyen
+    const presentBiomes = new Set(biomeWeights
+      ? biomeWeights.ids.filter((_, i) => biomeWeights.weights[i] > 0)
+      : biomemap);
+    const rulesByType = new Map<string, ObjectPlacementRule[]>();
+    for (const biome of config.biomes) {
+      for (const rule of biome.objects ?? []) {
+        rulesByType.set(rule.type, [...(rulesByType.get(rule.type) ?? []), rule]);
+      }
+    }
+    const placeable = new Set(
+      [...presentBiomes].flatMap(id => (biomes.get(id)?.objects ?? []).map(rule => rule.type))
+    );
+    if (placeable.size === 0) return [];
 
-    // Generar puntos usando Poisson Disk
-    const minDistance = 5; // metros entre objetos
-    const points = this.poissonDiskSampling(chunkSize, minDistance, 30, prng);
+    const exclusionRadius = (a: string, b: string) => Math.max(
+      0,
+      ...(rulesByType.get(a) ?? []).flatMap(rule => rule.exclusions?.filter(e => e.type === b) ?? []).map(e => e.radius),
+      ...(rulesByType.get(b) ?? []).flatMap(rule => rule.exclusions?.filter(e => e.type === a) ?? []).map(e => e.radius)
+    );
+    const exclusions = new Map([...placeable].map(type => [
+      type,
+      [...rulesByType.keys()]
+        .filter(other => other !== type)
+        .map(other => ({ type: other, radius: exclusionRadius(type, other) }))
+        .filter(exclusion => exclusion.radius > 0)
+    ]));
 
-    // Para cada punto, decidir si colocar objeto basado en bioma
-    for (const point of points) {
-      const x = Math.floor(point.x);
-      const z = Math.floor(point.z);
-      const index = z * chunkSize + x;
+    // Borde que hay que muestrear de cada tipo para decidir los puntos del
+    // chunk: el doble del radio de sus agrupaciones y los radios de exclusión
+    const borders = new Map<string, number>();
+    const extendBorder = (type: string, border: number) =>
+      borders.set(type, Math.max(borders.get(type) ?? 0, border));
+    for (const type of placeable) {
+      for (const rule of rulesByType.get(type)!) {
+        extendBorder(type, 2 * (rule.cluster?.radius ?? 0));
+      }
+      for (const exclusion of exclusions.get(type)!) {
+        extendBorder(exclusion.type, exclusion.radius);
+      }
+    }
+
+    const candidates = new Map<string, { points: Candidate[]; query: CandidateQuery }>();
+    for (const [type, border] of borders) {
+      const seed = hasher.hash(context.seed, type);
+      const spacing = Math.max(1, ...rulesByType.get(type)!.map(rule => rule.minSpacing));
+      const points = this.samplePoisson(chunkCoord, chunkSize, spacing, seed, hasher, border)
+        .map(point => ({
+          ...point,
+          type,
+          seed,
+          priority: hasher.unit(seed, point.cellX, point.cellZ, point.round, 'priority'),
+          spawn: hasher.unit(seed, point.cellX, point.cellZ, point.round, 'spawn')
+        }));
+      candidates.set(type, { points, query: this.indexCandidates(points, spacing) });
+    }
+
+    const placed: ObjectInstance[] = [];
+    for (const type of placeable) {
+      const { points, query } = candidates.get(type)!;
+
+      for (const point of points) {
+        const x = point.x - originX;
+        const z = point.z - originZ;
+        if (x < 0 || x >= chunkSize || z < 0 || z >= chunkSize) continue;
 
-      const biomeId = biomemap[index];
-      const height = heightmap[index];
+        const index = Math.floor(z) * chunkSize + Math.floor(x);
+        if (blocked?.[index]) continue;
 
-      // Obtener tipos de objetos para este bioma
-      const objectTypes = biomeObjects[biomeId] || [];
-      if (objectTypes.length === 0) continue;
+        const biomeId = biomeWeights
+          ? this.pickWeightedBiome(biomeWeights, index, hasher.unit(point.seed, point.cellX, point.cellZ, point.round, 'biome'))
+          : biomemap[index];
+        const biome = biomes.get(biomeId);
+        const rule = biome?.objects?.find(candidate => candidate.type === type);
+        if (!biome || !rule) continue;
 
-      // Probabilidad de spawn basada en densidad del bioma
-      const biome = config.biomes.find(b => b.id === biomeId);
-      const density = biome?.objectDensity || 0.5;
+        // Reglas del bioma compatibles con el terreno del punto
+        const terrain = this.sampleTerrain(heightmap, chunkSize, x, z, config.worldScale, this.TERRAIN_PADDING);
+        const compatible = biome.objects!.filter(candidate => this.matchesTerrain(candidate, terrain));
+        if (!compatible.includes(rule)) continue;
 
-      if (prng() < density) {
-        // Seleccionar tipo de objeto aleatoriamente
-        const type = objectTypes[Math.floor(prng() * objectTypes.length)];
+        const totalWeight = compatible.reduce((sum, candidate) => sum + candidate.weight, 0);
+        const probability = totalWeight > 0 ? (biome.objectDensity || 0.5) * rule.weight / totalWeight : 0;
 
-        // Calcular posición mundial
-        const worldX = chunkCoord.x * chunkSize + point.x;
-        const worldZ = chunkCoord.z * chunkSize + point.z;
-        const worldY = height * config.worldScale;
+        const spawned = point.spawn < probability ||
+          (rule.cluster !== undefined && this.inCluster(point, rule.cluster, query, probability));
+        if (!spawned) continue;
 
-        // Rotación aleatoria en Y
-        const rotationY = prng() * Math.PI * 2;
+        const excluded = exclusions.get(type)!.some(exclusion =>
+          candidates.get(exclusion.type)!.query(point.x, point.z, exclusion.radius)
+            .some(other => other.priority > point.priority)
+        );
+        if (excluded) continue;
+
+        // Rotación aleatoria en Y, inclinada después hacia la normal del terreno
+        const rotationY = hasher.unit(point.seed, point.cellX, point.cellZ, point.round, 'yaw') * Math.PI * 2;
+        const rotation = this.computeRotation(rotationY, terrain.normal, rule.alignToSurface ?? 0);
 
         // Escala con variación
-        const scaleVariation = 0.8 + prng() * 0.4; // 0.8 - 1.2
+        const scaleVariation = 0.8 + hasher.unit(point.seed, point.cellX, point.cellZ, point.round, 'scale') * 0.4; // 0.8 - 1.2
 
-        objects.push({
+        placed.push({
           type,
-          position: { x: worldX, y: worldY, z: worldZ },
-          rotation: { x: 0, y: rotationY, z: 0, w: 1 },
-          scale: {
-            x: scaleVariation,
-            y: scaleVariation,
-            z: scaleVariation
-          }
+          position: { x: point.x, y: terrain.height * config.worldScale, z: point.z },
+          rotation,
+          scale: { x: scaleVariation, y: scaleVariation, z: scaleVariation }
         });
       }
     }
 
-    return objects;
+    return placed;
+  }
+
+  /**
+   * Si el punto forma parte de la agrupación de otro punto del mismo tipo que
+   * supera el sorteo de aparición: la agrupación son los `count` puntos más
+   * cercanos a él a menos de `radius`
+   */
+  private static inCluster(
+    point: Candidate,
+    cluster: ObjectClusterParams,
+    query: CandidateQuery,
+    probability: number
+  ): boolean {
+    const distance = (a: Candidate, b: Candidate) => Math.hypot(a.x - b.x, a.z - b.z);
+
+    return query(point.x, point.z, cluster.radius).some(seed => {
+      if (seed === point || seed.spawn >= probability) return false;
+      const members = query(seed.x, seed.z, cluster.radius)
+        .filter(member => member !== seed)
+        .sort((a, b) => distance(seed, a) - distance(seed, b) || b.priority - a.priority);
+      return members.slice(0, cluster.count).includes(point);
+    });
+  }
+
+  /**
+   * Índice espacial de candidatos en cubetas de `cellSize`
+   */
+  private static indexCandidates(points: Candidate[], cellSize: number): CandidateQuery {
+    const buckets = new Map<string, Candidate[]>();
+    const key = (bx: number, bz: number) => `${bx},${bz}`;
+    for (const point of points) {
+      const bucketKey = key(Math.floor(point.x / cellSize), Math.floor(point.z / cellSize));
+      const bucket = buckets.get(bucketKey);
+      if (bucket) bucket.push(point);
+      else buckets.set(bucketKey, [point]);
+    }
+
+    return (x, z, radius) => {
+      const found: Candidate[] = [];
+      for (let bz = Math.floor((z - radius) / cellSize); bz <= Math.floor((z + radius) / cellSize); bz++) {
+        for (let bx = Math.floor((x - radius) / cellSize); bx <= Math.floor((x + radius) / cellSize); bx++) {
+          for (const point of buckets.get(key(bx, bz)) ?? []) {
+            if (Math.hypot(point.x - x, point.z - z) < radius) found.push(point);
+          }
+        }
+      }
+      return found;
+    };
+  }
+
+  /**
+   * Orientación del objeto: giro en Y seguido de la inclinación desde la
+   * vertical hacia la normal (alignment 0 = vertical, 1 = perpendicular al terreno)
+   */
+  private static computeRotation(
+    rotationY: number,
+    normal: { x: number; y: number; z: number },
+    alignment: number
+  ): Quaternion {
+    const up = { x: 0, y: 1, z: 0 };
+    const yaw = quaternionFromAxisAngle(up, rotationY);
+    if (alignment <= 0) return yaw;
+
+    const tx = normal.x * alignment;
+    const ty = 1 + (normal.y - 1) * alignment;
+    const tz = normal.z * alignment;
+    const length = Math.hypot(tx, ty, tz);
+    const tilt = quaternionFromUnitVectors(up, { x: tx / length, y: ty / length, z: tz / length });
+
+    return normalizeQuaternion(multiplyQuaternions(tilt, yaw));
+  }
+
+  /**
+   * Altura (interpolación bilineal), pendiente en grados y normal del
+   * terreno en una posición local del chunk
+   *
+   * @param padding celdas de borde del heightmap; más allá se repiten las del
+   *   borde (con TERRAIN_PADDING no hace falta en ninguna posición del chunk)
+   */
+  static sampleTerrain(
+    heightmap: Float32Array,
+    chunkSize: number,
+    x: number,
+    z: number,
+    worldScale: number,
+    padding: number = 0
+  ): { height: number; slope: number; normal: { x: number; y: number; z: number } } {
+    const size = chunkSize + padding * 2;
+    const at = (ix: number, iz: number) =>
+      heightmap[
+        Math.min(size - 1, Math.max(0, iz + padding)) * size +
+        Math.min(size - 1, Math.max(0, ix + padding))
+      ];
+
+    const bilinear = (px: number, pz: number) => {
+      const cx = Math.floor(px);
+      const cz = Math.floor(pz);
+      const fx = px - cx;
+      const fz = pz - cz;
+      return (
+        at(cx, cz) * (1 - fx) * (1 - fz) +
+        at(cx + 1, cz) * fx * (1 - fz) +
+        at(cx, cz + 1) * (1 - fx) * fz +
+        at(cx + 1, cz + 1) * fx * fz
+      );
+    };
+
+    // Diferencias centrales (una celda = un metro), en metros de altura
+    const gradientX = (bilinear(x + 0.5, z) - bilinear(x - 0.5, z)) * worldScale;
+    const gradientZ = (bilinear(x, z + 0.5) - bilinear(x, z - 0.5)) * worldScale;
+    const length = Math.hypot(gradientX, 1, gradientZ);
+
+    return {
+      height: bilinear(x, z),
+      slope: Math.atan(Math.hypot(gradientX, gradientZ)) * 180 / Math.PI,
+      normal: { x: -gradientX / length, y: 1 / length, z: -gradientZ / length }
+    };
+  }
+
+  private static matchesTerrain(
+    rule: ObjectPlacementRule,
+    terrain: { height: number; slope: number }
+  ): boolean {
+    return (
+      terrain.slope >= (rule.minSlope ?? 0) &&
+      terrain.slope <= (rule.maxSlope ?? 90) &&
+      terrain.height >= (rule.minHeight ?? -Infinity) &&
+      terrain.height <= (rule.maxHeight ?? Infinity)
+    );
+  }
+
+  private static pickWeightedBiome(
+    biomeWeights: BiomeWeights,
+    index: number,
+    roll: number
+  ): number {
+    const { k, ids, weights } = biomeWeights;
+    const base = index * k;
+
+    for (let j = 0; j < k; j++) {
+      roll -= weights[base + j];
+      if (roll < 0) return ids[base + j];
+    }
+
+    // Errores de redondeo: quedarse con el bioma dominante
+    return ids[base];
   }
 }
\ No newline at end of file
@@ -0,0 +1,442 @@
+import { GeneratorConfig, ObjectInstance, SettlementParams } from '../types.js';
+import { SeedHasher } from '../utils/hash.js';
+import { LRUCache } from '../utils/LRUCache.js';
+import { quaternionFromAxisAngle } from '../utils/quaternion.js';
+import { HeightmapGenerator } from './HeightmapGenerator.js';
+import { BiomeGenerator } from './BiomeGenerator.js';
+import { ObjectPlacer } from './ObjectPlacer.js';
+
+type ResolvedSettlementParams = Required<SettlementParams>;
+
+type Point = { x: number; z: number };
+
+export interface Settlement {
+  region: Point;
+  center: Point;
+  buildings: Array<{ type: string; position: Point; rotationY: number }>;
+}
+
+/**
+ * Asentamientos y caminos deterministas entre chunks
+ *
+ * El mundo se divide en regiones de regionSize metros; cada región tiene
+ * como mucho un asentamiento, cuyo emplazamiento se decide con hashes de la
+ * región y muestreando la altura y el bioma directamente del ruido (sin
+ * erosión), así que no depende de qué chunk lo pregunte. Los caminos unen
+ * asentamientos de regiones vecinas con una búsqueda A* restringida a esas
+ * dos regiones: cualquier chunk que toque el camino calcula el mismo trazado.
+ */
+export class SettlementGenerator {
+  private params: ResolvedSettlementParams;
+  private settlements = new LRUCache<string, Settlement | null>(256);
+  private roads = new LRUCache<string, Point[] | null>(256);
+
+  constructor(
+    private config: GeneratorConfig,
+    private seed: number,
+    private hasher: SeedHasher,
+    private heightGen: HeightmapGenerator,
+    private biomeGen: BiomeGenerator
+  ) {
+    this.params = SettlementGenerator.resolveParams(config.settlementParams!);
+  }
+
+  static resolveParams(params: SettlementParams): ResolvedSettlementParams {
+    return {
+      density: 0.5,
+      allowedBiomes: [1, 4, 5], // pradera, bosque templado, sabana
+      radius: 24,
+      maxHeightRange: 4,
+      minBuildings: 4,
+      maxBuildings: 10,
+      roadWidth: 3,
+      roadStep: 4,
+      slopeCost: 20,
+      waterCost: 50,
+      ...params
+    };
+  }
+
+  /**
+   * Edificios y máscara de caminos de un chunk
+   *
+   * @param heightmap heightmap con ObjectPlacer.TERRAIN_PADDING celdas de borde
+   */
+  generateChunk(
+    chunkCoord: Point,
+    chunkSize: number,
+    heightmap: Float32Array
+  ): { buildings: ObjectInstance[]; roadmask: Uint8Array } {
+    const { regionSize, roadWidth } = this.params;
+    const originX = chunkCoord.x * chunkSize;
+    const originZ = chunkCoord.z * chunkSize;
+
+    // Regiones que solapan el chunk (ampliado por el ancho de camino)
+    const margin = roadWidth;
+    const firstRegionX = Math.floor((originX - margin) / regionSize);
+    const lastRegionX = Math.floor((originX + chunkSize + margin) / regionSize);
+    const firstRegionZ = Math.floor((originZ - margin) / regionSize);
+    const lastRegionZ = Math.floor((originZ + chunkSize + margin) / regionSize);
+
+    const buildings: ObjectInstance[] = [];
+    const roadmask = new Uint8Array(chunkSize * chunkSize);
+    const edges = new Map<string, [Point, Point]>();
+
+    for (let rz = firstRegionZ; rz <= lastRegionZ; rz++) {
+      for (let rx = firstRegionX; rx <= lastRegionX; rx++) {
+        const settlement = this.getSettlement(rx, rz);
+
+        if (settlement) {
+          for (const building of settlement.buildings) {
+            const x = building.position.x - originX;
+            const z = building.position.z - originZ;
+            if (x < 0 || x >= chunkSize || z < 0 || z >= chunkSize) continue;
+
+            const { height } = ObjectPlacer.sampleTerrain(
+              heightmap,
+              chunkSize,
+              x,
+              z,
+              this.config.worldScale,
+              ObjectPlacer.TERRAIN_PADDING
+            );
+            buildings.push({
+              type: building.type,
+              position: { x: building.position.x, y: height * this.config.worldScale, z: building.position.z },
+              rotation: quaternionFromAxisAngle({ x: 0, y: 1, z: 0 }, building.rotationY),
+              scale: { x: 1, y: 1, z: 1 }
+            });
+          }
+        }
+
+        // Caminos hacia las cuatro regiones vecinas (cada arista una sola vez)
+        for (const [ax, az, bx, bz] of [
+          [rx - 1, rz, rx, rz],
+          [rx, rz, rx + 1, rz],
+          [rx, rz - 1, rx, rz],
+          [rx, rz, rx, rz + 1]
+        ]) {
+          edges.set(`${ax},${az}>${bx},${bz}`, [{ x: ax, z: az }, { x: bx, z: bz }]);
+        }
+      }
+    }
+
+    for (const [from, to] of edges.values()) {
+      const road = this.getRoad(from, to);
+      if (road) {
+        this.rasterizeRoad(road, originX, originZ, chunkSize, roadmask);
+      }
+    }
+
+    return { buildings, roadmask };
+  }
+
+  /**
+   * Asentamiento de una región, o null si no tiene
+   */
+  getSettlement(regionX: number, regionZ: number): Settlement | null {
+    const key = `${regionX},${regionZ}`;
+    const cached = this.settlements.get(key);
+    if (cached !== undefined) return cached;
+
+    const settlement = this.planSettlement(regionX, regionZ);
+    this.settlements.set(key, settlement);
+    return settlement;
+  }
+
+  private planSettlement(regionX: number, regionZ: number): Settlement | null {
+    const { regionSize, density, radius, roadStep } = this.params;
+    const random = (...inputs: number[]) =>
+      this.hasher.unit(this.seed, 'settlement', regionX, regionZ, ...inputs);
+
+    if (random(0) >= density) return null;
+
+    // Varios emplazamientos candidatos: quedarse con el más llano válido
+    const margin = radius + roadStep;
+    let best: { center: Point; range: number } | null = null;
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      const center = {
+        x: regionX * regionSize + margin + random(1, attempt) * (regionSize - margin * 2),
+        z: regionZ * regionSize + margin + random(2, attempt) * (regionSize - margin * 2)
+      };
+      const range = this.evaluateSite(center);
+      if (range !== null && (!best || range < best.range)) {
+        best = { center, range };
+      }
+    }
+
+    if (!best) return null;
+
+    return {
+      region: { x: regionX, z: regionZ },
+      center: best.center,
+      buildings: this.layoutBuildings(best.center, random)
+    };
+  }
+
+  /**
+   * Desnivel (m) del emplazamiento, o null si no es apto
+   */
+  private evaluateSite(center: Point): number | null {
+    const { radius, maxHeightRange, allowedBiomes } = this.params;
+    const { heightmapParams, worldScale } = this.config;
+    const seaLevel = this.config.waterParams?.seaLevel;
+
+    const centerHeight = this.heightGen.sampleHeight(center.x, center.z, heightmapParams);
+    const biome = this.biomeGen.sampleBiome(center.x, center.z, centerHeight, this.config);
+    if (!allowedBiomes.includes(biome)) return null;
+
+    let min = centerHeight;
+    let max = centerHeight;
+    for (const ring of [radius / 2, radius]) {
+      for (let i = 0; i < 8; i++) {
+        const angle = (i / 8) * Math.PI * 2;
+        const h = this.heightGen.sampleHeight(
+          center.x + Math.cos(angle) * ring,
+          center.z + Math.sin(angle) * ring,
+          heightmapParams
+        );
+        min = Math.min(min, h);
+        max = Math.max(max, h);
+      }
+    }
+
+    if (seaLevel !== undefined && min < seaLevel) return null;
+
+    const range = (max - min) * worldScale;
+    return range <= maxHeightRange ? range : null;
+  }
+
+  /**
+   * Edificio principal en el centro y casas en anillos mirando hacia él
+   */
+  private layoutBuildings(
+    center: Point,
+    random: (...inputs: number[]) => number
+  ): Settlement['buildings'] {
+    const { radius, minBuildings, maxBuildings } = this.params;
+    const houseCount = minBuildings +
+      Math.floor(random(3) * (maxBuildings - minBuildings + 1));
+
+    const buildings: Settlement['buildings'] = [
+      { type: 'building', position: { ...center }, rotationY: random(4) * Math.PI * 2 }
+    ];
+
+    for (let i = 0; i < houseCount; i++) {
+      const angle = (i / houseCount) * Math.PI * 2 + (random(5, i) - 0.5) * 0.3;
+      const distance = radius * (0.45 + (i % 2) * 0.35 + random(6, i) * 0.1);
+      const position = {
+        x: center.x + Math.cos(angle) * distance,
+        z: center.z + Math.sin(angle) * distance
+      };
+
+      buildings.push({
+        type: 'house',
+        position,
+        // Girar en Y para que la fachada (+Z local) mire al centro
+        rotationY: Math.atan2(center.x - position.x, center.z - position.z)
+      });
+    }
+
+    return buildings;
+  }
+
+  /**
+   * Camino entre los asentamientos de dos regiones vecinas, o null si
+   * alguna de las dos no tiene asentamiento
+   */
+  private getRoad(from: Point, to: Point): Point[] | null {
+    const key = `${from.x},${from.z}>${to.x},${to.z}`;
+    const cached = this.roads.get(key);
+    if (cached !== undefined) return cached;
+
+    const a = this.getSettlement(from.x, from.z);
+    const b = this.getSettlement(to.x, to.z);
+    const road = a && b ? this.findPath(a.center, b.center, from, to) : null;
+
+    this.roads.set(key, road);
+    return road;
+  }
+
+  /**
+   * A* sobre una rejilla de roadStep metros que cubre las dos regiones
+   * Coste: distancia + slopeCost por metro de desnivel + waterCost bajo el mar
+   */
+  private findPath(start: Point, goal: Point, regionA: Point, regionB: Point): Point[] {
+    const { regionSize, roadStep, slopeCost, waterCost } = this.params;
+    const { heightmapParams, worldScale } = this.config;
+    const seaLevel = this.config.waterParams?.seaLevel;
+
+    const originX = Math.min(regionA.x, regionB.x) * regionSize;
+    const originZ = Math.min(regionA.z, regionB.z) * regionSize;
+    const width = Math.floor(((Math.abs(regionA.x - regionB.x) + 1) * regionSize) / roadStep) + 1;
+    const depth = Math.floor(((Math.abs(regionA.z - regionB.z) + 1) * regionSize) / roadStep) + 1;
+
+    const toNode = (p: Point) =>
+      Math.round((p.z - originZ) / roadStep) * width + Math.round((p.x - originX) / roadStep);
+    const nodeX = (node: number) => originX + (node % width) * roadStep;
+    const nodeZ = (node: number) => originZ + Math.floor(node / width) * roadStep;
+
+    const heights = new Float32Array(width * depth).fill(NaN);
+    const heightAt = (node: number) => {
+      if (Number.isNaN(heights[node])) {
+        heights[node] = this.heightGen.sampleHeight(nodeX(node), nodeZ(node), heightmapParams);
+      }
+      return heights[node];
+    };
+
+    const startNode = toNode(start);
+    const goalNode = toNode(goal);
+    const gScore = new Float64Array(width * depth).fill(Infinity);
+    const cameFrom = new Int32Array(width * depth).fill(-1);
+    const closed = new Uint8Array(width * depth);
+    const open = new MinHeap();
+
+    const heuristic = (node: number) =>
+      Math.hypot(nodeX(node) - nodeX(goalNode), nodeZ(node) - nodeZ(goalNode));
+
+    gScore[startNode] = 0;
+    open.push(startNode, heuristic(startNode));
+
+    while (open.size > 0) {
+      const current = open.pop();
+      if (current === goalNode) break;
+      if (closed[current]) continue;
+      closed[current] = 1;
+
+      const cx = current % width;
+      const cz = Math.floor(current / width);
+
+      for (let dz = -1; dz <= 1; dz++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx === 0 && dz === 0) continue;
+          const nx = cx + dx;
+          const nz = cz + dz;
+          if (nx < 0 || nx >= width || nz < 0 || nz >= depth) continue;
+
+          const neighbour = nz * width + nx;
+          if (closed[neighbour]) continue;
+
+          const length = Math.hypot(dx, dz) * roadStep;
+          const rise = Math.abs(heightAt(neighbour) - heightAt(current)) * worldScale;
+          const underwater = seaLevel !== undefined && heightAt(neighbour) < seaLevel;
+          const cost = gScore[current] + length + rise * slopeCost + (underwater ? length * waterCost : 0);
+
+          if (cost < gScore[neighbour]) {
+            gScore[neighbour] = cost;
+            cameFrom[neighbour] = current;
+            open.push(neighbour, cost + heuristic(neighbour));
+          }
+        }
+      }
+    }
+
+    // Reconstruir desde el destino; los extremos exactos son los centros
+    const path: Point[] = [{ ...goal }];
+    for (let node = cameFrom[goalNode]; node !== -1 && node !== startNode; node = cameFrom[node]) {
+      path.push({ x: nodeX(node), z: nodeZ(node) });
+    }
+    path.push({ ...start });
+
+    return path.reverse();
+  }
+
+  /**
+   * Marca las celdas del chunk a menos de roadWidth / 2 de algún tramo
+   */
+  private rasterizeRoad(
+    road: Point[],
+    originX: number,
+    originZ: number,
+    chunkSize: number,
+    roadmask: Uint8Array
+  ): void {
+    const halfWidth = this.params.roadWidth / 2;
+
+    for (let i = 0; i < road.length - 1; i++) {
+      const a = road[i];
+      const b = road[i + 1];
+
+      const minX = Math.max(0, Math.floor(Math.min(a.x, b.x) - halfWidth - originX));
+      const maxX = Math.min(chunkSize - 1, Math.ceil(Math.max(a.x, b.x) + halfWidth - originX));
+      const minZ = Math.max(0, Math.floor(Math.min(a.z, b.z) - halfWidth - originZ));
+      const maxZ = Math.min(chunkSize - 1, Math.ceil(Math.max(a.z, b.z) + halfWidth - originZ));
+
+      const segX = b.x - a.x;
+      const segZ = b.z - a.z;
+      const lengthSq = segX * segX + segZ * segZ;
+
+      for (let z = minZ; z <= maxZ; z++) {
+        for (let x = minX; x <= maxX; x++) {
+          const px = originX + x - a.x;
+          const pz = originZ + z - a.z;
+          const t = lengthSq > 0 ? Math.max(0, Math.min(1, (px * segX + pz * segZ) / lengthSq)) : 0;
+          if (Math.hypot(px - segX * t, pz - segZ * t) <= halfWidth) {
+            roadmask[z * chunkSize + x] = 1;
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Cola de prioridad mínima (desempate por nodo para que A* sea determinista)
+ */
+class MinHeap {
+  private nodes: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, priority: number): void {
+    this.nodes.push(node);
+    this.priorities.push(priority);
+
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(i, parent)) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.priorities[0] = lastPriority;
+
+      let i = 0;
+      while (true) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.nodes.length && this.less(left, smallest)) smallest = left;
+        if (right < this.nodes.length && this.less(right, smallest)) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private less(a: number, b: number): boolean {
+    return this.priorities[a] < this.priorities[b] ||
+      (this.priorities[a] === this.priorities[b] && this.nodes[a] < this.nodes[b]);
+  }
+
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
@@ -0,0 +1,292 @@
+import {
+  WaterParams,
+  WATER_NONE,
+  WATER_RIVER,
+  WATER_LAKE,
+  WATER_OCEAN
+} from '../types.js';
+
+type ResolvedWaterParams = Required<Omit<WaterParams, 'seaLevel'>> & { seaLevel?: number };
+
+// Vecinos D8: ortogonales primero para desempates deterministas
+const D8 = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [-1, 1], [1, -1], [-1, -1]
+];
+
+/**
+ * Ríos y lagos a partir del heightmap
+ *
+ * La acumulación de flujo de una celda se define como el número de celdas
+ * aguas arriba a menos de riverReach de distancia. Esa definición solo depende
+ * del terreno cercano, no del chunk que se esté generando, así que con el
+ * padding de getPadding() dos chunks vecinos calculan exactamente los mismos
+ * ríos en su borde común. También con erosión: el heightmap erosionado solo
+ * depende de la posición en el mundo (ver ErosionSimulator).
+ */
+export class WaterGenerator {
+  static resolveParams(params: WaterParams): ResolvedWaterParams {
+    return {
+      riverReach: 24,
+      lakeRadius: 10,
+      lakeMinAccumulation: 40,
+      moistureRadius: 6,
+      moistureBoost: 0.3,
+      ...params
+    };
+  }
+
+  /**
+   * Padding de heightmap necesario para un resultado consistente entre chunks
+   */
+  static getPadding(params: WaterParams): number {
+    const { riverReach, lakeRadius, moistureRadius } = this.resolveParams(params);
+    return moistureRadius + Math.max(lakeRadius + riverReach * 2 + 1, lakeRadius * 2 + 1) + 1;
+  }
+
+  /**
+   * Genera el watermap del chunk con un borde de moistureRadius celdas
+   * (el borde lo usa BiomeGenerator para la humedad cerca del agua)
+   *
+   * @param heightmap heightmap con getPadding(params) celdas de borde
+   */
+  static generate(
+    heightmap: Float32Array,
+    chunkSize: number,
+    params: WaterParams
+  ): Uint8Array {
+    const resolved = this.resolveParams(params);
+    const padding = this.getPadding(params);
+    const size = chunkSize + padding * 2;
+
+    const directions = this.computeFlowDirections(heightmap, size);
+
+    // Región donde se necesita la acumulación: salida + alcance de los lagos
+    const outPadding = resolved.moistureRadius;
+    const accumulationBorder = padding - outPadding - resolved.lakeRadius;
+    const accumulation = this.computeAccumulation(
+      directions,
+      size,
+      accumulationBorder,
+      resolved.riverReach
+    );
+
+    const water = new Uint8Array(size * size);
+
+    for (let i = 0; i < water.length; i++) {
+      if (accumulation[i] >= resolved.riverThreshold) {
+        water[i] = WATER_RIVER;
+      }
+    }
+
+    this.fillLakes(heightmap, size, directions, accumulation, accumulationBorder, resolved, water);
+
+    if (resolved.seaLevel !== undefined) {
+      for (let i = 0; i < water.length; i++) {
+        if (heightmap[i] < resolved.seaLevel) {
+          water[i] = WATER_OCEAN;
+        }
+      }
+    }
+
+    // Recortar al chunk + borde de humedad
+    const outSize = chunkSize + outPadding * 2;
+    const result = new Uint8Array(outSize * outSize);
+    const offset = padding - outPadding;
+    for (let z = 0; z < outSize; z++) {
+      for (let x = 0; x < outSize; x++) {
+        result[z * outSize + x] = water[(z + offset) * size + (x + offset)];
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Distancia aproximada (chamfer 3-4) a la celda con agua más cercana
+   */
+  static distanceToWater(watermap: Uint8Array, size: number): Float32Array {
+    const distance = new Float32Array(size * size).fill(Infinity);
+    for (let i = 0; i < watermap.length; i++) {
+      if (watermap[i] !== WATER_NONE) distance[i] = 0;
+    }
+
+    const relax = (x: number, z: number, dx: number, dz: number, cost: number) => {
+      const nx = x + dx;
+      const nz = z + dz;
+      if (nx < 0 || nx >= size || nz < 0 || nz >= size) return;
+      const index = z * size + x;
+      const candidate = distance[nz * size + nx] + cost;
+      if (candidate < distance[index]) distance[index] = candidate;
+    };
+
+    // Pasada hacia delante y hacia atrás
+    for (let z = 0; z < size; z++) {
+      for (let x = 0; x < size; x++) {
+        relax(x, z, -1, 0, 1);
+        relax(x, z, 0, -1, 1);
+        relax(x, z, -1, -1, Math.SQRT2);
+        relax(x, z, 1, -1, Math.SQRT2);
+      }
+    }
+    for (let z = size - 1; z >= 0; z--) {
+      for (let x = size - 1; x >= 0; x--) {
+        relax(x, z, 1, 0, 1);
+        relax(x, z, 0, 1, 1);
+        relax(x, z, 1, 1, Math.SQRT2);
+        relax(x, z, -1, 1, Math.SQRT2);
+      }
+    }
+
+    return distance;
+  }
+
+  /**
+   * Dirección de máxima pendiente (D8) de cada celda; -1 en depresiones y bordes
+   */
+  private static computeFlowDirections(heightmap: Float32Array, size: number): Int32Array {
+    const directions = new Int32Array(size * size).fill(-1);
+
+    for (let z = 1; z < size - 1; z++) {
+      for (let x = 1; x < size - 1; x++) {
+        const index = z * size + x;
+        const h = heightmap[index];
+        let bestSlope = 0;
+
+        for (const [dx, dz] of D8) {
+          const neighbour = (z + dz) * size + (x + dx);
+          const slope = (h - heightmap[neighbour]) / Math.hypot(dx, dz);
+          if (slope > bestSlope) {
+            bestSlope = slope;
+            directions[index] = neighbour;
+          }
+        }
+      }
+    }
+
+    return directions;
+  }
+
+  /**
+   * Acumulación acotada: cada celda suma 1 a todas las celdas de su camino
+   * aguas abajo mientras estén a menos de `reach` de ella
+   */
+  private static computeAccumulation(
+    directions: Int32Array,
+    size: number,
+    border: number,
+    reach: number
+  ): Float32Array {
+    const accumulation = new Float32Array(size * size);
+
+    for (let z = 0; z < size; z++) {
+      for (let x = 0; x < size; x++) {
+        let current = z * size + x;
+
+        while (true) {
+          const cx = current % size;
+          const cz = (current - cx) / size;
+          if (cx >= border && cx < size - border && cz >= border && cz < size - border) {
+            accumulation[current] += 1;
+          }
+
+          const next = directions[current];
+          if (next === -1) break;
+
+          const nx = next % size;
+          const nz = (next - nx) / size;
+          if (Math.max(Math.abs(nx - x), Math.abs(nz - z)) > reach) break;
+
+          current = next;
+        }
+      }
+    }
+
+    return accumulation;
+  }
+
+  /**
+   * Llena las depresiones con cuenca suficiente hasta su punto de desborde
+   */
+  private static fillLakes(
+    heightmap: Float32Array,
+    size: number,
+    directions: Int32Array,
+    accumulation: Float32Array,
+    border: number,
+    params: ResolvedWaterParams,
+    water: Uint8Array
+  ): void {
+    const { lakeRadius, lakeMinAccumulation } = params;
+
+    for (let z = border; z < size - border; z++) {
+      for (let x = border; x < size - border; x++) {
+        const pit = z * size + x;
+        if (directions[pit] !== -1 || accumulation[pit] < lakeMinAccumulation) continue;
+
+        const lake = this.floodBasin(heightmap, size, x, z, lakeRadius);
+        for (const cell of lake) {
+          water[cell] = WATER_LAKE;
+        }
+      }
+    }
+  }
+
+  /**
+   * Crece la cuenca desde la depresión en orden de altura hasta encontrar una
+   * salida. Devuelve las celdas bajo el nivel de desborde, o nada si la cuenca
+   * excede el radio permitido.
+   */
+  private static floodBasin(
+    heightmap: Float32Array,
+    size: number,
+    pitX: number,
+    pitZ: number,
+    radius: number
+  ): number[] {
+    const pit = pitZ * size + pitX;
+    const visited = new Set<number>([pit]);
+    const region: number[] = [pit];
+    const frontier: number[] = [];
+    let level = heightmap[pit];
+
+    const pushNeighbours = (cell: number) => {
+      const cx = cell % size;
+      const cz = (cell - cx) / size;
+      for (const [dx, dz] of D8) {
+        const nx = cx + dx;
+        const nz = cz + dz;
+        const neighbour = nz * size + nx;
+        if (visited.has(neighbour)) continue;
+        visited.add(neighbour);
+        frontier.push(neighbour);
+      }
+    };
+    pushNeighbours(pit);
+
+    while (frontier.length > 0) {
+      // Celda más baja de la frontera (desempate por índice para determinismo)
+      let lowest = 0;
+      for (let i = 1; i < frontier.length; i++) {
+        const a = heightmap[frontier[i]];
+        const b = heightmap[frontier[lowest]];
+        if (a < b || (a === b && frontier[i] < frontier[lowest])) lowest = i;
+      }
+      const cell = frontier.splice(lowest, 1)[0];
+      const cx = cell % size;
+      const cz = (cell - cx) / size;
+
+      // La cuenca no cabe en el radio: no formar lago
+      if (Math.max(Math.abs(cx - pitX), Math.abs(cz - pitZ)) > radius) return [];
+
+      // Celda más baja que el nivel actual: el agua sale por aquí
+      if (heightmap[cell] < level) break;
+
+      level = heightmap[cell];
+      region.push(cell);
+      pushNeighbours(cell);
+    }
+
+    return region.filter(cell => heightmap[cell] < level);
+  }
+}
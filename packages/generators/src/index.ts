@@ -1,9 +1,31 @@
-export const GENERATORS_VERSION = '0.1.0';
+export { GENERATORS_VERSION } from './version.js';
 
 // Re-export all components based on investigation
-export * from './types';
-export * from './WorldGenerator';
-export * from './generators/HeightmapGenerator';
-export * from './generators/BiomeGenerator';
-export * from './generators/ObjectPlacer';
-export * from './utils/hash';
\ No newline at end of file
+export * from './types.js';
+export * from './WorldGenerator.js';
+export * from './generators/HeightmapGenerator.js';
+export * from './generators/BiomeGenerator.js';
+export * from './generators/ObjectPlacer.js';
+export * from './generators/ErosionSimulator.js';
+export * from './generators/WaterGenerator.js';
+export * from './generators/SettlementGenerator.js';
+export * from './generators/DensityGenerator.js';
+export * from './generators/MarchingCubes.js';
+export * from './pipeline/stages.js';
+export * from './config/merge.js';
+export * from './config/validation.js';
+export * from './config/presets.js';
+export * from './config/diff.js';
+export * from './streaming/ChunkStreamer.js';
+export * from './workers/GeneratorPool.js';
+export * from './workers/protocol.js';
+export * from './serialization/ChunkCodec.js';
+export * from './serialization/ChunkHash.js';
+export * from './serialization/ImageExport.js';
+export * from './serialization/png.js';
+export * from './storage/ChunkStore.js';
+export * from './storage/backends.js';
+export * from './utils/hash.js';
+export * from './utils/LRUCache.js';
+export * from './utils/grid.js';
+export * from './utils/quaternion.js';
\ No newline at end of file
@@ -0,0 +1,358 @@
+import { RNG } from '@worldlab/core';
+import { extractRegion, getLodGrid } from '../utils/grid.js';
+import { HeightmapGenerator } from '../generators/HeightmapGenerator.js';
+import { BiomeGenerator } from '../generators/BiomeGenerator.js';
+import { ObjectPlacer } from '../generators/ObjectPlacer.js';
+import { ErosionSimulator } from '../generators/ErosionSimulator.js';
+import { WaterGenerator } from '../generators/WaterGenerator.js';
+import { SettlementGenerator } from '../generators/SettlementGenerator.js';
+import { DensityGenerator } from '../generators/DensityGenerator.js';
+import { MarchingCubes } from '../generators/MarchingCubes.js';
+import { HeightRange, importHeightmapPNG } from '../serialization/ImageExport.js';
+import { GeneratorConfig, GeneratorStage, StageContext } from '../types.js';
+
+/**
+ * Generador de biomas con un subflujo por campo del RNG de la etapa 'biomes'
+ */
+function createBiomeGenerator(rng: RNG): BiomeGenerator {
+  return new BiomeGenerator(
+    rng.derive('temperature').toFunction(),
+    rng.derive('moisture').toFunction()
+  );
+}
+
+/**
+ * Borde del heightmap que necesitan las etapas posteriores (densidad y
+ * objetos leen las primeras celdas de los vecinos; erosión y agua simulan
+ * más allá del chunk para encajar con ellos)
+ */
+function getHeightmapPadding(config: GeneratorConfig): number {
+  const { erosionParams, waterParams } = config;
+  return ObjectPlacer.TERRAIN_PADDING +
+    (waterParams ? WaterGenerator.getPadding(waterParams) : 0) +
+    (erosionParams ? ErosionSimulator.getPadding(erosionParams) : 0);
+}
+
+/**
+ * Heightmap del chunk con el borde que lee ObjectPlacer.sampleTerrain
+ */
+function getTerrainArea(context: StageContext): Float32Array {
+  const padding = context.intermediate.padding as number;
+  return extractRegion(
+    context.intermediate.paddedHeightmap as Float32Array,
+    context.chunkSize + padding * 2,
+    padding - ObjectPlacer.TERRAIN_PADDING,
+    context.chunkSize + ObjectPlacer.TERRAIN_PADDING * 2
+  );
+}
+
+/**
+ * Heightmap con borde suficiente para las etapas que lo necesitan
+ * Con lod > 0 solo la rejilla reducida, sin borde (no hay erosión ni agua)
+ */
+export const heightmapStage: GeneratorStage = {
+  name: 'height',
+  inputs: [],
+  outputs: ['heightmap', 'paddedHeightmap'],
+  seedScope: 'global',
+  supportsLod: true,
+  run(context) {
+    if (context.lod) {
+      context.chunk.heightmap = new HeightmapGenerator(context.prng).generate(context);
+      return;
+    }
+
+    const padding = getHeightmapPadding(context.config);
+    const paddedHeightmap = new HeightmapGenerator(context.prng).generate(context, padding);
+
+    context.intermediate.paddedHeightmap = paddedHeightmap;
+    context.intermediate.padding = padding;
+    context.chunk.heightmap = HeightmapGenerator.extractCenterArea(
+      paddedHeightmap,
+      context.chunkSize,
+      padding
+    );
+  }
+};
+
+/**
+ * Etapa 'height' que lee las alturas de una imagen PNG en lugar del ruido,
+ * para fijar un terreno pintado a mano; erosión, agua, biomas y objetos
+ * siguen siendo procedurales. Se usa con replaceStage('height', ...).
+ *
+ * El píxel (0, 0) es la celda del mundo `origin`; fuera de la imagen se
+ * repite el borde. Los asentamientos eligen emplazamiento con el ruido de
+ * HeightmapGenerator, así que no tienen en cuenta la imagen.
+ */
+export function createImageHeightmapStage(
+  png: Uint8Array,
+  options: HeightRange & { origin?: { x: number; z: number } } = {}
+): GeneratorStage {
+  const { width, height, heights } = importHeightmapPNG(png, options);
+  const origin = options.origin ?? { x: 0, z: 0 };
+
+  return {
+    ...heightmapStage,
+    run(context) {
+      const { chunkCoord, chunkSize } = context;
+
+      if (context.lod) {
+        const { step, size } = getLodGrid(chunkSize, context.lod);
+        const lodHeightmap = new Float32Array(size * size);
+        for (let z = 0; z < size; z++) {
+          const row = Math.max(0, Math.min(height - 1, chunkCoord.z * chunkSize + z * step - origin.z));
+          for (let x = 0; x < size; x++) {
+            const column = Math.max(0, Math.min(width - 1, chunkCoord.x * chunkSize + x * step - origin.x));
+            lodHeightmap[z * size + x] = heights[row * width + column];
+          }
+        }
+        context.chunk.heightmap = lodHeightmap;
+        return;
+      }
+
+      const padding = getHeightmapPadding(context.config);
+      const dataSize = chunkSize + padding * 2;
+      const paddedHeightmap = new Float32Array(dataSize * dataSize);
+
+      const startX = chunkCoord.x * chunkSize - padding - origin.x;
+      const startZ = chunkCoord.z * chunkSize - padding - origin.z;
+      for (let z = 0; z < dataSize; z++) {
+        const row = Math.max(0, Math.min(height - 1, startZ + z));
+        for (let x = 0; x < dataSize; x++) {
+          const column = Math.max(0, Math.min(width - 1, startX + x));
+          paddedHeightmap[z * dataSize + x] = heights[row * width + column];
+        }
+      }
+
+      context.intermediate.paddedHeightmap = paddedHeightmap;
+      context.intermediate.padding = padding;
+      context.chunk.heightmap = HeightmapGenerator.extractCenterArea(paddedHeightmap, chunkSize, padding);
+    }
+  };
+}
+
+/**
+ * Erosión opcional; la semilla es global para que los chunks vecinos
+ * simulen las mismas gotas en la zona compartida
+ */
+export const erosionStage: GeneratorStage = {
+  name: 'erosion',
+  inputs: ['paddedHeightmap'],
+  outputs: ['heightmap', 'paddedHeightmap'],
+  seedScope: 'global',
+  enabled: config => config.erosionParams !== undefined,
+  run(context) {
+    const { chunkCoord, chunkSize, config } = context;
+    const paddedHeightmap = context.intermediate.paddedHeightmap as Float32Array;
+    const padding = context.intermediate.padding as number;
+
+    ErosionSimulator.erode(
+      paddedHeightmap,
+      chunkSize + padding * 2,
+      {
+        x: chunkCoord.x * chunkSize - padding,
+        z: chunkCoord.z * chunkSize - padding
+      },
+      chunkSize,
+      context.seed,
+      config.erosionParams!,
+      context.hasher
+    );
+
+    context.chunk.heightmap = HeightmapGenerator.extractCenterArea(
+      paddedHeightmap,
+      chunkSize,
+      padding
+    );
+  }
+};
+
+/**
+ * Ríos y lagos opcionales (con borde para la humedad de BiomeGenerator)
+ */
+export const waterStage: GeneratorStage = {
+  name: 'water',
+  inputs: ['paddedHeightmap'],
+  outputs: ['watermap', 'paddedWatermap'],
+  seedScope: 'global',
+  enabled: config => config.waterParams !== undefined,
+  run(context) {
+    const { chunkSize } = context;
+    const waterParams = context.config.waterParams!;
+    const padding = context.intermediate.padding as number;
+    const waterPadding = WaterGenerator.getPadding(waterParams);
+    const moisturePadding = WaterGenerator.resolveParams(waterParams).moistureRadius;
+
+    const waterArea = extractRegion(
+      context.intermediate.paddedHeightmap as Float32Array,
+      chunkSize + padding * 2,
+      padding - waterPadding,
+      chunkSize + waterPadding * 2
+    );
+    const paddedWatermap = WaterGenerator.generate(waterArea, chunkSize, waterParams);
+
+    context.intermediate.paddedWatermap = paddedWatermap;
+    context.intermediate.watermapPadding = moisturePadding;
+    context.chunk.watermap = extractRegion(
+      paddedWatermap,
+      chunkSize + moisturePadding * 2,
+      moisturePadding,
+      chunkSize
+    );
+  }
+};
+
+/**
+ * Vóxeles 3D opcionales (cuevas, voladizos) y su malla por marching cubes
+ * Parte del heightmap ya erosionado; el resto de etapas sigue usando el
+ * heightmap 2D, así que objetos y asentamientos no ven las cuevas
+ */
+export const densityStage: GeneratorStage = {
+  name: 'density',
+  inputs: ['paddedHeightmap'],
+  outputs: ['voxels', 'densityMesh'],
+  seedScope: 'global',
+  enabled: config => config.densityParams !== undefined,
+  run(context) {
+    const { chunkSize } = context;
+    const padding = context.intermediate.padding as number;
+
+    // Incluir la primera fila y columna de los vecinos para cerrar la malla
+    const surface = extractRegion(
+      context.intermediate.paddedHeightmap as Float32Array,
+      chunkSize + padding * 2,
+      padding,
+      chunkSize + 1
+    );
+    const voxels = new DensityGenerator(context.prng).generate(context, surface);
+
+    context.chunk.voxels = voxels;
+    context.chunk.densityMesh = MarchingCubes.polygonize(voxels);
+  }
+};
+
+/**
+ * Biomas (temperatura, humedad, clasificación); usa el watermap si existe
+ */
+export const biomeStage: GeneratorStage = {
+  name: 'biomes',
+  inputs: ['heightmap'],
+  outputs: ['temperature', 'moisture', 'biomemap', 'biomeWeights'],
+  seedScope: 'global',
+  supportsLod: true,
+  run(context) {
+    const biomeGen = createBiomeGenerator(context.rng);
+
+    const { temperature, moisture, biomemap, biomeWeights } = biomeGen.generate({
+      seed: context.seed,
+      chunkCoord: context.chunkCoord,
+      chunkSize: context.chunkSize,
+      config: context.config,
+      lod: context.lod,
+      heightmap: context.chunk.heightmap,
+      watermap: context.intermediate.paddedWatermap as Uint8Array | undefined,
+      watermapPadding: context.intermediate.watermapPadding as number | undefined
+    });
+
+    Object.assign(context.chunk, {
+      temperature,
+      moisture,
+      biomemap,
+      ...(biomeWeights && { biomeWeights })
+    });
+  }
+};
+
+/**
+ * Asentamientos (edificios) y caminos entre ellos
+ * Guarda su SettlementGenerator para reutilizar emplazamientos y caminos
+ * ya calculados entre chunks; se recrea si cambia la config
+ */
+export function createSettlementStage(): GeneratorStage {
+  let generator: SettlementGenerator | null = null;
+  let generatorConfig: GeneratorConfig | null = null;
+
+  return {
+    name: 'settlements',
+    inputs: ['paddedHeightmap'],
+    outputs: ['objects', 'roadmask', 'blockedCells'],
+    seedScope: 'global',
+    enabled: config => config.settlementParams !== undefined,
+    run(context) {
+      const { config, chunkSize } = context;
+
+      if (!generator || generatorConfig !== config) {
+        const { globalSeed, hasher } = context;
+        generator = new SettlementGenerator(
+          config,
+          context.seed,
+          hasher,
+          new HeightmapGenerator(new RNG(hasher.hash(globalSeed, heightmapStage.name)).toFunction()),
+          createBiomeGenerator(new RNG(hasher.hash(globalSeed, biomeStage.name)))
+        );
+        generatorConfig = config;
+      }
+
+      const { buildings, roadmask } = generator.generateChunk(
+        context.chunkCoord,
+        chunkSize,
+        getTerrainArea(context)
+      );
+
+      // Sin vegetación sobre los caminos ni junto a los edificios
+      const blockedCells = new Uint8Array(roadmask);
+      const clearance = 5;
+      for (const building of buildings) {
+        const bx = building.position.x - context.chunkCoord.x * chunkSize;
+        const bz = building.position.z - context.chunkCoord.z * chunkSize;
+        for (let z = Math.max(0, Math.floor(bz - clearance)); z <= Math.min(chunkSize - 1, bz + clearance); z++) {
+          for (let x = Math.max(0, Math.floor(bx - clearance)); x <= Math.min(chunkSize - 1, bx + clearance); x++) {
+            if (Math.hypot(x - bx, z - bz) <= clearance) blockedCells[z * chunkSize + x] = 1;
+          }
+        }
+      }
+
+      context.chunk.objects = [...(context.chunk.objects ?? []), ...buildings];
+      context.chunk.roadmask = roadmask;
+      context.intermediate.blockedCells = blockedCells;
+    }
+  };
+}
+
+/**
+ * Objetos según las reglas de cada bioma
+ * Todas las decisiones salen de hashes de celdas del mundo (ver placeObjects),
+ * así que los objetos junto al borde no dependen de qué chunk se genera antes
+ */
+export const objectStage: GeneratorStage = {
+  name: 'objects',
+  inputs: ['paddedHeightmap', 'biomemap'],
+  outputs: ['objects'],
+  seedScope: 'global',
+  run(context) {
+    const placed = ObjectPlacer.placeObjects(
+      context,
+      context.chunk.biomemap!,
+      getTerrainArea(context),
+      context.chunk.biomeWeights,
+      context.intermediate.blockedCells as Uint8Array | undefined
+    );
+    context.chunk.objects = [...(context.chunk.objects ?? []), ...placed];
+  }
+};
+
+/**
+ * Pipeline por defecto: altura → erosión → agua → densidad → biomas →
+ * asentamientos → objetos
+ */
+export function createDefaultStages(): GeneratorStage[] {
+  return [
+    heightmapStage,
+    erosionStage,
+    waterStage,
+    densityStage,
+    biomeStage,
+    createSettlementStage(),
+    objectStage
+  ];
+}
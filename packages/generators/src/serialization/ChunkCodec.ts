@@ -0,0 +1,586 @@
+import { GENERATORS_VERSION } from '../version.js';
+import { ChunkData, ObjectInstance } from '../types.js';
+import { getLodGrid } from '../utils/grid.js';
+
+/**
+ * Formato binario versionado para ChunkData
+ *
+ * Cabecera (little-endian):
+ *   magic 'WLCK' | formatVersion u16 | flags u16 | generatorVersion (varint + utf8)
+ *   seed f64, o varint + utf8 con FLAG_STRING_SEED (v4)
+ *   coord.x i32 | coord.z i32 | chunkSize u32 | lod u8 (v2)
+ *   configHash (varint + utf8, v3)
+ *
+ * Con lod > 0 las capas 2D siguen getLodGrid(chunkSize, lod). En la v1 no
+ * había lod y chunkSize era el lado de la rejilla. configHash identifica la
+ * config con la que se generó (hashGenerationConfig); vacío si no se indicó.
+ *
+ * Seguida de secciones etiquetadas: tag u8 | byteLength u32 | payload.
+ * El decodificador ignora etiquetas desconocidas, así que añadir capas nuevas
+ * no rompe archivos existentes.
+ */
+
+export const CHUNK_FORMAT_VERSION = 4;
+
+const MAGIC = 0x4b434c57; // 'WLCK' en little-endian
+
+const FLAG_QUANTIZED_HEIGHTMAP = 1 << 0;
+const FLAG_STRING_SEED = 1 << 1;
+
+const SectionTag = {
+  Heightmap: 1,
+  Biomemap: 2,
+  Temperature: 3,
+  Moisture: 4,
+  Objects: 5,
+  Metadata: 6,
+  Watermap: 7,
+  BiomeWeights: 8,
+  Roadmask: 9,
+  Voxels: 10,
+  DensityMesh: 11
+} as const;
+
+export interface ChunkEncodeOptions {
+  quantizeHeightmap?: boolean; // Float32 -> Uint16 (mitad de tamaño, con pérdida)
+  generatorVersion?: string;
+  configHash?: string;
+}
+
+export interface ChunkHeader {
+  formatVersion: number;
+  generatorVersion: string;
+  seed: number | string;
+  coord: { x: number; z: number };
+  chunkSize: number;
+  lod: number;
+  configHash: string;
+  quantizedHeightmap: boolean;
+}
+
+/**
+ * Codifica un chunk al formato binario
+ */
+export function encodeChunk(chunk: ChunkData, options: ChunkEncodeOptions = {}): Uint8Array {
+  const lod = chunk.metadata.lod ?? 0;
+  const gridSize = Math.round(Math.sqrt(chunk.heightmap.length));
+  const chunkSize = lod > 0 ? (gridSize - 1) << lod : gridSize;
+  const quantize = options.quantizeHeightmap ?? false;
+  const seed: unknown = chunk.metadata.seed ?? 0;
+  if (typeof seed !== 'number' && typeof seed !== 'string') {
+    throw new Error(`Chunk metadata.seed must be a number or a string, got ${typeof seed}`);
+  }
+  const writer = new BinaryWriter();
+
+  // Cabecera
+  writer.u32(MAGIC);
+  writer.u16(CHUNK_FORMAT_VERSION);
+  writer.u16(
+    (quantize ? FLAG_QUANTIZED_HEIGHTMAP : 0) |
+    (typeof seed === 'string' ? FLAG_STRING_SEED : 0)
+  );
+  writer.string(options.generatorVersion ?? GENERATORS_VERSION);
+  if (typeof seed === 'string') {
+    writer.string(seed);
+  } else {
+    writer.f64(seed);
+  }
+  writer.i32(chunk.coord.x);
+  writer.i32(chunk.coord.z);
+  writer.u32(chunkSize);
+  writer.u8(lod);
+  writer.string(options.configHash ?? '');
+
+  writer.section(SectionTag.Heightmap, w =>
+    quantize ? writeQuantized(w, chunk.heightmap) : w.f32Array(chunk.heightmap)
+  );
+  writer.section(SectionTag.Biomemap, w => writeRunLength(w, chunk.biomemap));
+  writer.section(SectionTag.Temperature, w => w.f32Array(chunk.temperature));
+  writer.section(SectionTag.Moisture, w => w.f32Array(chunk.moisture));
+  if (chunk.watermap) {
+    const watermap = chunk.watermap;
+    writer.section(SectionTag.Watermap, w => writeRunLength(w, watermap));
+  }
+  if (chunk.roadmask) {
+    const roadmask = chunk.roadmask;
+    writer.section(SectionTag.Roadmask, w => writeRunLength(w, roadmask));
+  }
+  if (chunk.biomeWeights) {
+    const { k, ids, weights } = chunk.biomeWeights;
+    writer.section(SectionTag.BiomeWeights, w => {
+      w.u8(k);
+      w.bytes(ids);
+      w.f32Array(weights);
+    });
+  }
+  if (chunk.voxels) {
+    const { size, minY, density } = chunk.voxels;
+    writer.section(SectionTag.Voxels, w => {
+      w.u32(size.x);
+      w.u32(size.y);
+      w.u32(size.z);
+      w.f64(minY);
+      w.f32Array(density);
+    });
+  }
+  if (chunk.densityMesh) {
+    const { vertices, indices } = chunk.densityMesh;
+    writer.section(SectionTag.DensityMesh, w => {
+      w.u32(vertices.length);
+      w.u32(indices.length);
+      w.f32Array(vertices);
+      indices.forEach(index => w.u32(index));
+    });
+  }
+  writer.section(SectionTag.Objects, w => writeObjects(w, chunk.objects));
+  writer.section(SectionTag.Metadata, w => {
+    const { minHeight, maxHeight, generationTime, seed, ...extra } = chunk.metadata;
+    w.f64(minHeight);
+    w.f64(maxHeight);
+    w.f64(generationTime);
+    w.string(Object.keys(extra).length > 0 ? JSON.stringify(extra) : '');
+  });
+
+  return writer.finish();
+}
+
+/**
+ * Decodifica un chunk desde el formato binario
+ */
+export function decodeChunk(bytes: Uint8Array): ChunkData {
+  const reader = new BinaryReader(bytes);
+  const header = readHeader(reader);
+  const gridSize = getLodGrid(header.chunkSize, header.lod).size;
+  const cellCount = gridSize * gridSize;
+
+  const chunk: ChunkData = {
+    coord: header.coord,
+    heightmap: new Float32Array(cellCount),
+    biomemap: new Uint8Array(cellCount),
+    temperature: new Float32Array(cellCount),
+    moisture: new Float32Array(cellCount),
+    objects: [],
+    metadata: {
+      minHeight: 0,
+      maxHeight: 0,
+      generationTime: 0,
+      seed: header.seed
+    }
+  };
+
+  while (reader.remaining() > 0) {
+    const tag = reader.u8();
+    const length = reader.u32();
+    const section = reader.sub(length);
+
+    switch (tag) {
+      case SectionTag.Heightmap:
+        chunk.heightmap = header.quantizedHeightmap
+          ? readQuantized(section, cellCount)
+          : section.f32Array(cellCount);
+        break;
+      case SectionTag.Biomemap:
+        chunk.biomemap = readRunLength(section, cellCount);
+        break;
+      case SectionTag.Temperature:
+        chunk.temperature = section.f32Array(cellCount);
+        break;
+      case SectionTag.Moisture:
+        chunk.moisture = section.f32Array(cellCount);
+        break;
+      case SectionTag.Watermap:
+        chunk.watermap = readRunLength(section, cellCount);
+        break;
+      case SectionTag.Roadmask:
+        chunk.roadmask = readRunLength(section, cellCount);
+        break;
+      case SectionTag.BiomeWeights: {
+        const k = section.u8();
+        const ids = new Uint8Array(cellCount * k);
+        for (let i = 0; i < ids.length; i++) {
+          ids[i] = section.u8();
+        }
+        chunk.biomeWeights = { k, ids, weights: section.f32Array(cellCount * k) };
+        break;
+      }
+      case SectionTag.Voxels: {
+        const size = { x: section.u32(), y: section.u32(), z: section.u32() };
+        const minY = section.f64();
+        chunk.voxels = { size, minY, density: section.f32Array(size.x * size.y * size.z) };
+        break;
+      }
+      case SectionTag.DensityMesh: {
+        const vertexCount = section.u32();
+        const indices = new Uint32Array(section.u32());
+        const vertices = section.f32Array(vertexCount);
+        for (let i = 0; i < indices.length; i++) {
+          indices[i] = section.u32();
+        }
+        chunk.densityMesh = { vertices, indices };
+        break;
+      }
+      case SectionTag.Objects:
+        chunk.objects = readObjects(section);
+        break;
+      case SectionTag.Metadata: {
+        chunk.metadata.minHeight = section.f64();
+        chunk.metadata.maxHeight = section.f64();
+        chunk.metadata.generationTime = section.f64();
+        const extra = section.string();
+        if (extra) {
+          Object.assign(chunk.metadata, JSON.parse(extra));
+        }
+        break;
+      }
+      default:
+        // Sección de una versión más nueva: ignorar
+        break;
+    }
+  }
+
+  return chunk;
+}
+
+/**
+ * Lee solo la cabecera (útil para validar cachés sin decodificar el chunk)
+ */
+export function decodeChunkHeader(bytes: Uint8Array): ChunkHeader {
+  return readHeader(new BinaryReader(bytes));
+}
+
+function readHeader(reader: BinaryReader): ChunkHeader {
+  if (reader.remaining() < 8 || reader.u32() !== MAGIC) {
+    throw new Error('Invalid chunk data: missing WLCK header');
+  }
+
+  const formatVersion = reader.u16();
+  if (formatVersion > CHUNK_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported chunk format version ${formatVersion} (max ${CHUNK_FORMAT_VERSION})`
+    );
+  }
+
+  const flags = reader.u16();
+  const generatorVersion = reader.string();
+  const seed = flags & FLAG_STRING_SEED ? reader.string() : reader.f64();
+  const coord = { x: reader.i32(), z: reader.i32() };
+  const chunkSize = reader.u32();
+  const lod = formatVersion >= 2 ? reader.u8() : 0;
+  const configHash = formatVersion >= 3 ? reader.string() : '';
+
+  return {
+    formatVersion,
+    generatorVersion,
+    seed,
+    coord,
+    chunkSize,
+    lod,
+    configHash,
+    quantizedHeightmap: (flags & FLAG_QUANTIZED_HEIGHTMAP) !== 0
+  };
+}
+
+function writeQuantized(writer: BinaryWriter, data: Float32Array): void {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of data) {
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+  }
+  if (data.length === 0) {
+    min = max = 0;
+  }
+
+  const range = max - min || 1;
+  writer.f32(min);
+  writer.f32(max);
+  for (const v of data) {
+    writer.u16(Math.round(((v - min) / range) * 65535));
+  }
+}
+
+function readQuantized(reader: BinaryReader, length: number): Float32Array {
+  const min = reader.f32();
+  const max = reader.f32();
+  const range = max - min;
+  const result = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    result[i] = min + (reader.u16() / 65535) * range;
+  }
+
+  return result;
+}
+
+/**
+ * Run-length encoding: los biomas forman regiones grandes y contiguas
+ */
+function writeRunLength(writer: BinaryWriter, data: Uint8Array): void {
+  let i = 0;
+  while (i < data.length) {
+    const value = data[i];
+    let run = 1;
+    while (i + run < data.length && data[i + run] === value) {
+      run++;
+    }
+    writer.u8(value);
+    writer.varint(run);
+    i += run;
+  }
+}
+
+function readRunLength(reader: BinaryReader, length: number): Uint8Array {
+  const result = new Uint8Array(length);
+  let i = 0;
+
+  while (i < length && reader.remaining() > 0) {
+    const value = reader.u8();
+    const run = reader.varint();
+    result.fill(value, i, Math.min(length, i + run));
+    i += run;
+  }
+
+  return result;
+}
+
+/**
+ * Tabla de tipos + un registro empaquetado por objeto (f64, sin pérdida)
+ */
+function writeObjects(writer: BinaryWriter, objects: ObjectInstance[]): void {
+  const types = [...new Set(objects.map(o => o.type))];
+  const typeIndex = new Map(types.map((type, i) => [type, i]));
+
+  writer.varint(types.length);
+  types.forEach(type => writer.string(type));
+
+  writer.varint(objects.length);
+  for (const obj of objects) {
+    writer.varint(typeIndex.get(obj.type)!);
+    writer.f64(obj.position.x);
+    writer.f64(obj.position.y);
+    writer.f64(obj.position.z);
+    writer.f64(obj.rotation.x);
+    writer.f64(obj.rotation.y);
+    writer.f64(obj.rotation.z);
+    writer.f64(obj.rotation.w);
+    writer.f64(obj.scale.x);
+    writer.f64(obj.scale.y);
+    writer.f64(obj.scale.z);
+  }
+}
+
+function readObjects(reader: BinaryReader): ObjectInstance[] {
+  const typeCount = reader.varint();
+  const types: string[] = [];
+  for (let i = 0; i < typeCount; i++) {
+    types.push(reader.string());
+  }
+
+  const count = reader.varint();
+  const objects: ObjectInstance[] = [];
+  for (let i = 0; i < count; i++) {
+    objects.push({
+      type: types[reader.varint()],
+      position: { x: reader.f64(), y: reader.f64(), z: reader.f64() },
+      rotation: { x: reader.f64(), y: reader.f64(), z: reader.f64(), w: reader.f64() },
+      scale: { x: reader.f64(), y: reader.f64(), z: reader.f64() }
+    });
+  }
+
+  return objects;
+}
+
+/**
+ * Buffer de escritura que crece según se necesita
+ */
+class BinaryWriter {
+  private buffer = new ArrayBuffer(1024);
+  private view = new DataView(this.buffer);
+  private offset = 0;
+  private static encoder = new TextEncoder();
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  i32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f32(value: number): void {
+    this.ensure(4);
+    this.view.setFloat32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  varint(value: number): void {
+    let v = value >>> 0;
+    while (v >= 0x80) {
+      this.u8((v & 0x7f) | 0x80);
+      v >>>= 7;
+    }
+    this.u8(v);
+  }
+
+  string(value: string): void {
+    const bytes = BinaryWriter.encoder.encode(value);
+    this.varint(bytes.length);
+    this.bytes(bytes);
+  }
+
+  bytes(data: Uint8Array): void {
+    this.ensure(data.length);
+    new Uint8Array(this.buffer, this.offset, data.length).set(data);
+    this.offset += data.length;
+  }
+
+  f32Array(data: Float32Array): void {
+    this.ensure(data.length * 4);
+    for (let i = 0; i < data.length; i++) {
+      this.view.setFloat32(this.offset, data[i], true);
+      this.offset += 4;
+    }
+  }
+
+  /**
+   * Escribe una sección etiquetada con su longitud como prefijo
+   */
+  section(tag: number, write: (writer: BinaryWriter) => void): void {
+    const body = new BinaryWriter();
+    write(body);
+    const payload = body.finish();
+
+    this.u8(tag);
+    this.u32(payload.length);
+    this.bytes(payload);
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.buffer.slice(0, this.offset));
+  }
+
+  private ensure(bytes: number): void {
+    if (this.offset + bytes <= this.buffer.byteLength) return;
+
+    let capacity = this.buffer.byteLength * 2;
+    while (capacity < this.offset + bytes) {
+      capacity *= 2;
+    }
+
+    const next = new ArrayBuffer(capacity);
+    new Uint8Array(next).set(new Uint8Array(this.buffer, 0, this.offset));
+    this.buffer = next;
+    this.view = new DataView(next);
+  }
+}
+
+class BinaryReader {
+  private view: DataView;
+  private offset = 0;
+  private static decoder = new TextDecoder();
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  remaining(): number {
+    return this.data.byteLength - this.offset;
+  }
+
+  u8(): number {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16(): number {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  i32(): number {
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f32(): number {
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  varint(): number {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = this.u8();
+      result |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return result >>> 0;
+  }
+
+  string(): string {
+    const length = this.varint();
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return BinaryReader.decoder.decode(bytes);
+  }
+
+  f32Array(length: number): Float32Array {
+    const result = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      result[i] = this.f32();
+    }
+    return result;
+  }
+
+  /**
+   * Lector acotado a los siguientes `length` bytes
+   */
+  sub(length: number): BinaryReader {
+    if (length > this.remaining()) {
+      throw new Error('Invalid chunk data: section exceeds buffer length');
+    }
+    const reader = new BinaryReader(this.data.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return reader;
+  }
+}
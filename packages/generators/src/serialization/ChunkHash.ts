@@ -0,0 +1,100 @@
+import { ChunkData } from '../types.js';
+
+/**
+ * Capas de un chunk en orden de pipeline, con la parte del generador que
+ * las produce (para saber dónde buscar cuando un hash cambia)
+ */
+export const CHUNK_HASH_LAYERS = [
+  { layer: 'heightmap', source: 'HeightmapGenerator / ErosionSimulator' },
+  { layer: 'watermap', source: 'WaterGenerator' },
+  { layer: 'voxels', source: 'DensityGenerator' },
+  { layer: 'temperature', source: 'BiomeGenerator' },
+  { layer: 'moisture', source: 'BiomeGenerator' },
+  { layer: 'biomemap', source: 'BiomeGenerator' },
+  { layer: 'biomeWeights', source: 'BiomeGenerator' },
+  { layer: 'roadmask', source: 'SettlementGenerator' },
+  { layer: 'objects', source: 'ObjectPlacer / SettlementGenerator' }
+] as const;
+
+export type ChunkHashLayer = typeof CHUNK_HASH_LAYERS[number]['layer'];
+
+// Hash por capa (hex); las capas ausentes en el chunk no aparecen
+export type ChunkLayerHashes = Partial<Record<ChunkHashLayer, string>>;
+
+/**
+ * FNV-1a de 32 bits sobre bytes, en hexadecimal
+ */
+export function hashBytes(bytes: Uint8Array, hash: number = 0x811c9dc5): string {
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Hash de cada capa de contenido del chunk (sin metadata, que incluye tiempos)
+ */
+export function hashChunkLayers(chunk: ChunkData): ChunkLayerHashes {
+  const view = (array: ArrayBufferView) =>
+    new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+
+  const hashes: ChunkLayerHashes = {
+    heightmap: hashBytes(view(chunk.heightmap)),
+    temperature: hashBytes(view(chunk.temperature)),
+    moisture: hashBytes(view(chunk.moisture)),
+    biomemap: hashBytes(view(chunk.biomemap)),
+    objects: hashBytes(encodeObjects(chunk.objects))
+  };
+
+  if (chunk.watermap) hashes.watermap = hashBytes(view(chunk.watermap));
+  if (chunk.roadmask) hashes.roadmask = hashBytes(view(chunk.roadmask));
+  // densityMesh se deriva de los vóxeles: basta con el hash de la densidad
+  if (chunk.voxels) hashes.voxels = hashBytes(view(chunk.voxels.density));
+  if (chunk.biomeWeights) {
+    const { k, ids, weights } = chunk.biomeWeights;
+    hashes.biomeWeights = hashBytes(
+      concatBytes([new Uint8Array([k]), view(ids), view(weights)])
+    );
+  }
+
+  return hashes;
+}
+
+/**
+ * Hash de contenido de todo el chunk
+ */
+export function hashChunk(chunk: ChunkData): string {
+  const layers = hashChunkLayers(chunk);
+  const summary = CHUNK_HASH_LAYERS
+    .map(({ layer }) => `${layer}:${layers[layer] ?? '-'}`)
+    .join('|');
+  return hashBytes(new TextEncoder().encode(summary));
+}
+
+function encodeObjects(objects: ChunkData['objects']): Uint8Array {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+
+  for (const obj of objects) {
+    parts.push(encoder.encode(obj.type));
+    const values = new Float64Array([
+      obj.position.x, obj.position.y, obj.position.z,
+      obj.rotation.x, obj.rotation.y, obj.rotation.z, obj.rotation.w,
+      obj.scale.x, obj.scale.y, obj.scale.z
+    ]);
+    parts.push(new Uint8Array(values.buffer));
+  }
+
+  return concatBytes(parts);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,136 @@
+import { WorldGenerator } from '../WorldGenerator.js';
+import { GENERATORS_VERSION } from '../version.js';
+import { generateHash, hash32 } from '../utils/hash.js';
+import {
+  CHUNK_HASH_LAYERS,
+  ChunkLayerHashes,
+  hashChunk,
+  hashChunkLayers
+} from './ChunkHash.js';
+import { GeneratorConfigOverrides, HashAlgorithm } from '../types.js';
+
+/**
+ * Corpus golden: hashes de chunks para semillas, presets y coordenadas fijas
+ * Lo usan cli/golden.ts (para regenerarlo) y test/golden.test.ts
+ */
+
+export interface GoldenEntry {
+  preset: string;
+  seed: number | string;
+  coord: { x: number; z: number };
+  hash: string;
+  layers: ChunkLayerHashes;
+}
+
+export interface GoldenCorpus {
+  generatorVersion: string;
+  // Canarios: si cambian, cambian todas las semillas derivadas
+  hashCanary: Record<HashAlgorithm, number>;
+  entries: GoldenEntry[];
+}
+
+const PRESETS: Record<string, GeneratorConfigOverrides> = {
+  default: {},
+  legacy: { hashAlgorithm: 'legacy' },
+  full: {
+    worldScale: 8,
+    erosionParams: { hydraulicIterations: 2000, thermalIterations: 4 },
+    waterParams: { riverThreshold: 60, seaLevel: -0.4 },
+    biomeBlendParams: { blendWidth: 0.1, jitterStrength: 0.04 },
+    settlementParams: { regionSize: 128 }
+  },
+  density: {
+    densityParams: {
+      minY: -16,
+      maxY: 16,
+      frequency: 0.05,
+      octaves: 2,
+      strength: 0.6,
+      caves: { frequency: 0.04, threshold: 0.15 }
+    }
+  }
+};
+
+const SEEDS: Array<number | string> = [12345, 'worldlab-golden'];
+
+const COORDS = [
+  { x: 0, z: 0 },
+  { x: 1, z: 0 },
+  { x: -3, z: 7 }
+];
+
+/**
+ * Hashes de los chunks de referencia con el generador actual
+ */
+export async function buildGoldenCorpus(): Promise<GoldenCorpus> {
+  const entries: GoldenEntry[] = [];
+
+  for (const [preset, overrides] of Object.entries(PRESETS)) {
+    for (const seed of SEEDS) {
+      const generator = new WorldGenerator({ ...overrides, seed, chunkSize: 32 });
+
+      for (const coord of COORDS) {
+        const chunk = await generator.generateChunk(coord);
+        entries.push({
+          preset,
+          seed,
+          coord,
+          hash: hashChunk(chunk),
+          layers: hashChunkLayers(chunk)
+        });
+      }
+    }
+  }
+
+  return {
+    generatorVersion: GENERATORS_VERSION,
+    hashCanary: {
+      mix32: hash32('worldlab', 1, -2, 'golden'),
+      legacy: generateHash('worldlab', 1, -2, 'golden')
+    },
+    entries
+  };
+}
+
+/**
+ * Diferencias con un corpus guardado, indicando la primera capa que cambió
+ */
+export function diffGoldenCorpus(expected: GoldenCorpus, actual: GoldenCorpus): string[] {
+  const problems: string[] = [];
+
+  for (const [algorithm, value] of Object.entries(actual.hashCanary)) {
+    const previous = expected.hashCanary?.[algorithm as HashAlgorithm];
+    if (previous !== value) {
+      problems.push(
+        `${algorithm} hash output changed (${previous} -> ${value}): ` +
+        `every seed derived with hashAlgorithm '${algorithm}' is affected`
+      );
+    }
+  }
+
+  const key = (entry: GoldenEntry) =>
+    `${entry.preset} seed=${entry.seed} chunk=(${entry.coord.x},${entry.coord.z})`;
+  const actualByKey = new Map(actual.entries.map(entry => [key(entry), entry]));
+
+  for (const entry of expected.entries) {
+    const current = actualByKey.get(key(entry));
+    if (!current) {
+      problems.push(`${key(entry)}: case no longer generated`);
+      continue;
+    }
+    if (current.hash === entry.hash) continue;
+
+    const drifted = CHUNK_HASH_LAYERS.filter(
+      ({ layer }) => entry.layers[layer] !== current.layers[layer]
+    );
+    const first = drifted[0];
+    problems.push(
+      first
+        ? `${key(entry)}: ${first.layer} drifted (${first.source})` +
+          (drifted.length > 1 ? `; also ${drifted.slice(1).map(d => d.layer).join(', ')}` : '')
+        : `${key(entry)}: chunk hash changed`
+    );
+  }
+
+  return problems;
+}
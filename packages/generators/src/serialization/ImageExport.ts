@@ -0,0 +1,138 @@
+import { BiomeConfig, ChunkData } from '../types.js';
+import { decodePNG, encodePNG, PNGImage } from './png.js';
+
+/**
+ * Rango de alturas que se mapea a negro (min) y blanco (max)
+ * Por defecto [-1, 1], el rango nominal del heightmap, para que exportar e
+ * importar una imagen conserve las alturas absolutas
+ */
+export interface HeightRange {
+  minHeight?: number;
+  maxHeight?: number;
+}
+
+/**
+ * Chunks colocados en una sola rejilla según sus coordenadas
+ * El píxel (0, 0) corresponde a la celda del mundo `origin`; x crece hacia
+ * +X y las filas hacia +Z. Las celdas de chunks ausentes quedan a 0.
+ */
+export interface ChunkMosaic {
+  origin: { x: number; z: number };
+  width: number;
+  height: number;
+  chunkSize: number;
+  chunks: ChunkData[];
+}
+
+export function layoutChunks(chunks: ChunkData | ChunkData[]): ChunkMosaic {
+  const list = Array.isArray(chunks) ? chunks : [chunks];
+  if (list.length === 0) throw new Error('No chunks to export');
+  // Las rejillas reducidas repiten el borde y no encajan píxel a píxel
+  if (list.some(chunk => chunk.metadata.lod)) {
+    throw new Error('Reduced-LOD chunks cannot be exported; generate them at lod 0');
+  }
+
+  const chunkSize = Math.round(Math.sqrt(list[0].heightmap.length));
+  if (list.some(chunk => chunk.heightmap.length !== chunkSize * chunkSize)) {
+    throw new Error('All exported chunks must have the same chunkSize');
+  }
+
+  const minX = Math.min(...list.map(chunk => chunk.coord.x));
+  const maxX = Math.max(...list.map(chunk => chunk.coord.x));
+  const minZ = Math.min(...list.map(chunk => chunk.coord.z));
+  const maxZ = Math.max(...list.map(chunk => chunk.coord.z));
+
+  return {
+    origin: { x: minX * chunkSize, z: minZ * chunkSize },
+    width: (maxX - minX + 1) * chunkSize,
+    height: (maxZ - minZ + 1) * chunkSize,
+    chunkSize,
+    chunks: list
+  };
+}
+
+/**
+ * Heightmap de uno o varios chunks como PNG en escala de grises de 16 bits
+ */
+export function exportHeightmapPNG(
+  chunks: ChunkData | ChunkData[],
+  range: HeightRange = {}
+): Uint8Array {
+  const mosaic = layoutChunks(chunks);
+  const { minHeight = -1, maxHeight = 1 } = range;
+  const data = new Uint16Array(mosaic.width * mosaic.height);
+
+  forEachCell(mosaic, (chunk, cell, pixel) => {
+    const t = (chunk.heightmap[cell] - minHeight) / (maxHeight - minHeight);
+    data[pixel] = Math.round(Math.max(0, Math.min(1, t)) * 65535);
+  });
+
+  return encodePNG({ width: mosaic.width, height: mosaic.height, channels: 1, bitDepth: 16, data });
+}
+
+/**
+ * Mapa de biomas de uno o varios chunks como PNG RGB con BiomeConfig.color
+ * Los biomas sin configuración se pintan de negro
+ */
+export function exportBiomePNG(chunks: ChunkData | ChunkData[], biomes: BiomeConfig[]): Uint8Array {
+  const mosaic = layoutChunks(chunks);
+  const colors = new Map(biomes.map(biome => [biome.id, biome.color]));
+  const data = new Uint8Array(mosaic.width * mosaic.height * 3);
+
+  forEachCell(mosaic, (chunk, cell, pixel) => {
+    const color = colors.get(chunk.biomemap[cell]);
+    if (!color) return;
+    data[pixel * 3] = color.r;
+    data[pixel * 3 + 1] = color.g;
+    data[pixel * 3 + 2] = color.b;
+  });
+
+  return encodePNG({ width: mosaic.width, height: mosaic.height, channels: 3, bitDepth: 8, data });
+}
+
+/**
+ * Alturas de una imagen PNG (inversa de exportHeightmapPNG)
+ * En imágenes en color se usa la media de R, G y B; el alfa se ignora
+ */
+export function importHeightmapPNG(
+  png: Uint8Array,
+  range: HeightRange = {}
+): { width: number; height: number; heights: Float32Array } {
+  const image = decodePNG(png);
+  const { minHeight = -1, maxHeight = 1 } = range;
+  const maxValue = image.bitDepth === 16 ? 65535 : 255;
+  const heights = new Float32Array(image.width * image.height);
+
+  for (let i = 0; i < heights.length; i++) {
+    const t = pixelIntensity(image, i) / maxValue;
+    heights[i] = minHeight + t * (maxHeight - minHeight);
+  }
+
+  return { width: image.width, height: image.height, heights };
+}
+
+function pixelIntensity(image: PNGImage, pixel: number): number {
+  const { channels, data } = image;
+  const base = pixel * channels;
+  // Gris (con o sin alfa) o RGB(A)
+  return channels < 3
+    ? data[base]
+    : (data[base] + data[base + 1] + data[base + 2]) / 3;
+}
+
+function forEachCell(
+  mosaic: ChunkMosaic,
+  visit: (chunk: ChunkData, cell: number, pixel: number) => void
+): void {
+  const { origin, width, chunkSize } = mosaic;
+
+  for (const chunk of mosaic.chunks) {
+    const offsetX = chunk.coord.x * chunkSize - origin.x;
+    const offsetZ = chunk.coord.z * chunkSize - origin.z;
+    for (let z = 0; z < chunkSize; z++) {
+      for (let x = 0; x < chunkSize; x++) {
+        visit(chunk, z * chunkSize + x, (offsetZ + z) * width + offsetX + x);
+      }
+    }
+  }
+}
@@ -0,0 +1,553 @@
+/**
+ * Codificador y decodificador PNG en TypeScript puro (Node y navegador)
+ *
+ * Cubre lo necesario para heightmaps y mapas de biomas: gris, gris+alfa,
+ * RGB y RGBA de 8 o 16 bits, además de leer paletas y grises de 1/2/4 bits
+ * (se expanden a 8 bits). No admite imágenes entrelazadas (Adam7).
+ */
+
+export interface PNGImage {
+  width: number;
+  height: number;
+  channels: 1 | 2 | 3 | 4; // gris, gris+alfa, RGB, RGBA
+  bitDepth: 8 | 16;
+  data: Uint8Array | Uint16Array; // muestras fila a fila, sin relleno
+}
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// channels -> color type de PNG, y muestras por píxel de cada color type
+const COLOR_TYPES = { 1: 0, 2: 4, 3: 2, 4: 6 } as const;
+const SAMPLES_PER_PIXEL: Record<number, number | undefined> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Codifica una imagen como PNG (deflate con códigos Huffman fijos)
+ */
+export function encodePNG(image: PNGImage): Uint8Array {
+  const { width, height, channels, bitDepth, data } = image;
+  if (data.length !== width * height * channels) {
+    throw new Error(`PNG data has ${data.length} samples, expected ${width * height * channels}`);
+  }
+
+  // Muestras en bytes big-endian, como exige PNG
+  const bytesPerSample = bitDepth / 8;
+  const samples = new Uint8Array(data.length * bytesPerSample);
+  for (let i = 0; i < data.length; i++) {
+    if (bitDepth === 16) {
+      samples[i * 2] = data[i] >>> 8;
+      samples[i * 2 + 1] = data[i] & 0xff;
+    } else {
+      samples[i] = data[i];
+    }
+  }
+
+  const stride = width * channels * bytesPerSample;
+  const filtered = filterRows(samples, stride, height, channels * bytesPerSample);
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = COLOR_TYPES[channels];
+  // compresión 0, filtro 0, sin entrelazado
+
+  return concat([
+    new Uint8Array(SIGNATURE),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibCompress(filtered)),
+    pngChunk('IEND', new Uint8Array(0))
+  ]);
+}
+
+/**
+ * Decodifica un PNG no entrelazado
+ */
+export function decodePNG(bytes: Uint8Array): PNGImage {
+  if (SIGNATURE.some((value, i) => bytes[i] !== value)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  for (let offset = SIGNATURE.length; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const body = bytes.subarray(offset + 8, offset + 8 + length);
+    if (crc32(bytes.subarray(offset + 4, offset + 8 + length)) !== view.getUint32(offset + 8 + length)) {
+      throw new Error(`PNG chunk ${type} has a bad CRC`);
+    }
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      const header = new DataView(body.buffer, body.byteOffset, body.byteLength);
+      width = header.getUint32(0);
+      height = header.getUint32(4);
+      bitDepth = body[8];
+      colorType = body[9];
+      if (body[12] !== 0) throw new Error('Interlaced PNGs are not supported');
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const samplesPerPixel = SAMPLES_PER_PIXEL[colorType];
+  if (samplesPerPixel === undefined) throw new Error(`Unknown PNG color type ${colorType}`);
+  if (colorType === 3 && !palette) throw new Error('Palette PNG without PLTE chunk');
+  if (bitDepth < 8 && colorType !== 0 && colorType !== 3) {
+    throw new Error(`Unsupported PNG bit depth ${bitDepth} for color type ${colorType}`);
+  }
+
+  const bitsPerPixel = samplesPerPixel * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = unfilterRows(zlibDecompress(concat(idat)), stride, height, Math.max(1, bitsPerPixel / 8));
+
+  if (bitDepth === 16) {
+    const data = new Uint16Array(width * height * samplesPerPixel);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = (raw[i * 2] << 8) | raw[i * 2 + 1];
+    }
+    return { width, height, channels: samplesPerPixel as PNGImage['channels'], bitDepth: 16, data };
+  }
+
+  if (bitDepth === 8 && colorType !== 3) {
+    return { width, height, channels: samplesPerPixel as PNGImage['channels'], bitDepth: 8, data: raw };
+  }
+
+  // Paletas y grises de menos de 8 bits: desempaquetar y expandir
+  const channels = colorType === 3 ? 3 : 1;
+  const data = new Uint8Array(width * height * channels);
+  const maxValue = (1 << bitDepth) - 1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bit = x * bitDepth;
+      const value = (raw[y * stride + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxValue;
+      const pixel = y * width + x;
+      if (colorType === 3) {
+        data.set(palette!.subarray(value * 3, value * 3 + 3), pixel * 3);
+      } else {
+        data[pixel] = Math.round((value * 255) / maxValue);
+      }
+    }
+  }
+  return { width, height, channels, bitDepth: 8, data };
+}
+
+function pngChunk(type: string, body: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + body.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(body, 8);
+  view.setUint32(8 + body.length, crc32(chunk.subarray(4, 8 + body.length)));
+  return chunk;
+}
+
+/**
+ * Filtra cada fila con el filtro que minimiza la suma de valores absolutos
+ * (la heurística recomendada por la especificación)
+ */
+function filterRows(samples: Uint8Array, stride: number, height: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(height * (stride + 1));
+  const candidate = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const row = samples.subarray(y * stride, (y + 1) * stride);
+    const prior = y > 0 ? samples.subarray((y - 1) * stride, y * stride) : null;
+    let bestScore = Infinity;
+
+    for (let filter = 0; filter <= 4; filter++) {
+      let score = 0;
+      for (let i = 0; i < stride; i++) {
+        const left = i >= bpp ? row[i - bpp] : 0;
+        const up = prior ? prior[i] : 0;
+        const upLeft = prior && i >= bpp ? prior[i - bpp] : 0;
+        const value = (row[i] - predict(filter, left, up, upLeft)) & 0xff;
+        candidate[i] = value;
+        score += value < 128 ? value : 256 - value;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        out[y * (stride + 1)] = filter;
+        out.set(candidate, y * (stride + 1) + 1);
+      }
+    }
+  }
+
+  return out;
+}
+
+function unfilterRows(filtered: Uint8Array, stride: number, height: number, bpp: number): Uint8Array {
+  if (filtered.length < height * (stride + 1)) throw new Error('PNG image data is truncated');
+  const out = new Uint8Array(height * stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = filtered[y * (stride + 1)];
+    if (filter > 4) throw new Error(`Unknown PNG filter ${filter}`);
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bpp ? out[y * stride + i - bpp] : 0;
+      const up = y > 0 ? out[(y - 1) * stride + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? out[(y - 1) * stride + i - bpp] : 0;
+      out[y * stride + i] = filtered[y * (stride + 1) + 1 + i] + predict(filter, left, up, upLeft);
+    }
+  }
+
+  return out;
+}
+
+function predict(filter: number, left: number, up: number, upLeft: number): number {
+  switch (filter) {
+    case 1: return left;
+    case 2: return up;
+    case 3: return (left + up) >> 1;
+    case 4: {
+      // Paeth
+      const p = left + up - upLeft;
+      const pa = Math.abs(p - left);
+      const pb = Math.abs(p - up);
+      const pc = Math.abs(p - upLeft);
+      return pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+    }
+    default: return 0;
+  }
+}
+
+// --- zlib / deflate ---
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const WINDOW_SIZE = 32768;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 32;
+
+function zlibCompress(data: Uint8Array): Uint8Array {
+  const deflated = deflate(data);
+  const out = new Uint8Array(deflated.length + 6);
+  out[0] = 0x78; // deflate, ventana de 32 KB
+  out[1] = 0x01;
+  out.set(deflated, 2);
+  new DataView(out.buffer).setUint32(out.length - 4, adler32(data));
+  return out;
+}
+
+function zlibDecompress(data: Uint8Array): Uint8Array {
+  if ((data[0] & 0x0f) !== 8 || ((data[0] << 8) | data[1]) % 31 !== 0 || data[1] & 0x20) {
+    throw new Error('Invalid zlib stream in PNG');
+  }
+  return inflate(data.subarray(2));
+}
+
+/**
+ * Deflate en un solo bloque con códigos fijos y LZ77 por cadenas de hash
+ */
+function deflate(data: Uint8Array): Uint8Array {
+  const out = new BitWriter();
+  out.bits(1, 1); // último bloque
+  out.bits(1, 2); // Huffman fijo
+
+  const head = new Int32Array(1 << 15).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE);
+  const hashAt = (i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & 0x7fff;
+  const insert = (i: number) => {
+    if (i + 2 >= data.length) return;
+    const h = hashAt(i);
+    prev[i & (WINDOW_SIZE - 1)] = head[h];
+    head[h] = i;
+  };
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (i + 2 < data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - i);
+      let candidate = head[hashAt(i)];
+      for (let chain = 0; chain < MAX_CHAIN && candidate >= 0 && i - candidate <= WINDOW_SIZE; chain++) {
+        let length = 0;
+        while (length < maxLength && data[candidate + length] === data[i + length]) length++;
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = i - candidate;
+          if (length === maxLength) break;
+        }
+        candidate = prev[candidate & (WINDOW_SIZE - 1)];
+      }
+    }
+
+    if (bestLength >= 3) {
+      writeFixedLength(out, bestLength);
+      writeFixedDistance(out, bestDistance);
+      for (let j = 0; j < bestLength; j++) insert(i + j);
+      i += bestLength;
+    } else {
+      writeFixedLiteral(out, data[i]);
+      insert(i);
+      i++;
+    }
+  }
+
+  writeFixedLiteral(out, 256);
+  return out.finish();
+}
+
+function writeFixedLiteral(out: BitWriter, symbol: number): void {
+  if (symbol < 144) out.code(0x30 + symbol, 8);
+  else if (symbol < 256) out.code(0x190 + symbol - 144, 9);
+  else if (symbol < 280) out.code(symbol - 256, 7);
+  else out.code(0xc0 + symbol - 280, 8);
+}
+
+function writeFixedLength(out: BitWriter, length: number): void {
+  let index = LENGTH_BASE.length - 1;
+  while (LENGTH_BASE[index] > length) index--;
+  writeFixedLiteral(out, 257 + index);
+  out.bits(length - LENGTH_BASE[index], LENGTH_EXTRA[index]);
+}
+
+function writeFixedDistance(out: BitWriter, distance: number): void {
+  let index = DIST_BASE.length - 1;
+  while (DIST_BASE[index] > distance) index--;
+  out.code(index, 5);
+  out.bits(distance - DIST_BASE[index], DIST_EXTRA[index]);
+}
+
+class BitWriter {
+  private buffer = new Uint8Array(1024);
+  private length = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  // Bits sueltos, del menos significativo al más
+  bits(value: number, count: number): void {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.byte(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  // Códigos Huffman: se escriben empezando por el bit más significativo
+  code(code: number, length: number): void {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) reversed |= ((code >> i) & 1) << (length - 1 - i);
+    this.bits(reversed, length);
+  }
+
+  finish(): Uint8Array {
+    if (this.bitCount > 0) this.byte(this.bitBuffer & 0xff);
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    return this.buffer.slice(0, this.length);
+  }
+
+  private byte(value: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+}
+
+interface Huffman {
+  counts: Uint16Array; // códigos por longitud
+  symbols: Uint16Array; // símbolos ordenados por código canónico
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] !== 0) symbols[offsets[lengths[i]]++] = i;
+  }
+  return { counts, symbols };
+}
+
+let fixedTables: { literals: Huffman; distances: Huffman } | null = null;
+
+function getFixedTables(): { literals: Huffman; distances: Huffman } {
+  if (!fixedTables) {
+    const lengths = new Uint8Array(288);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    fixedTables = { literals: buildHuffman(lengths), distances: buildHuffman(new Uint8Array(30).fill(5)) };
+  }
+  return fixedTables;
+}
+
+function inflate(data: Uint8Array): Uint8Array {
+  let position = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let out = new Uint8Array(Math.max(1024, data.length * 4));
+  let length = 0;
+
+  const bits = (count: number): number => {
+    while (bitCount < count) {
+      if (position >= data.length) throw new Error('Unexpected end of deflate stream');
+      bitBuffer |= data[position++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCount -= count;
+    return value;
+  };
+
+  const ensure = (extra: number) => {
+    if (length + extra <= out.length) return;
+    const grown = new Uint8Array(Math.max(out.length * 2, length + extra));
+    grown.set(out.subarray(0, length));
+    out = grown;
+  };
+
+  const decode = ({ counts, symbols }: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= bits(1);
+      const count = counts[len];
+      if (code - count < first) return symbols[index + (code - first)];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code in deflate stream');
+  };
+
+  let final = 0;
+  while (!final) {
+    final = bits(1);
+    const type = bits(2);
+
+    if (type === 0) {
+      // Bloque sin comprimir: alineado a byte
+      bitBuffer = 0;
+      bitCount = 0;
+      const blockLength = data[position] | (data[position + 1] << 8);
+      position += 4;
+      ensure(blockLength);
+      out.set(data.subarray(position, position + blockLength), length);
+      position += blockLength;
+      length += blockLength;
+      continue;
+    }
+
+    let literals: Huffman;
+    let distances: Huffman;
+    if (type === 1) {
+      ({ literals, distances } = getFixedTables());
+    } else if (type === 2) {
+      const literalCount = bits(5) + 257;
+      const distanceCount = bits(5) + 1;
+      const codeLengthCount = bits(4) + 4;
+
+      const codeLengths = new Uint8Array(19);
+      for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+      const codeLengthTable = buildHuffman(codeLengths);
+
+      const lengths = new Uint8Array(literalCount + distanceCount);
+      for (let i = 0; i < lengths.length;) {
+        const symbol = decode(codeLengthTable);
+        if (symbol < 16) {
+          lengths[i++] = symbol;
+        } else {
+          const [repeat, value] =
+            symbol === 16 ? [3 + bits(2), lengths[i - 1]] :
+            symbol === 17 ? [3 + bits(3), 0] :
+            [11 + bits(7), 0];
+          lengths.fill(value, i, i + repeat);
+          i += repeat;
+        }
+      }
+      literals = buildHuffman(lengths.subarray(0, literalCount));
+      distances = buildHuffman(lengths.subarray(literalCount));
+    } else {
+      throw new Error('Invalid deflate block type');
+    }
+
+    for (;;) {
+      const symbol = decode(literals);
+      if (symbol < 256) {
+        ensure(1);
+        out[length++] = symbol;
+      } else if (symbol === 256) {
+        break;
+      } else {
+        const index = symbol - 257;
+        const matchLength = LENGTH_BASE[index] + bits(LENGTH_EXTRA[index]);
+        const distanceCode = decode(distances);
+        const distance = DIST_BASE[distanceCode] + bits(DIST_EXTRA[distanceCode]);
+        if (distance > length) throw new Error('Invalid distance in deflate stream');
+        ensure(matchLength);
+        for (let i = 0; i < matchLength; i++, length++) out[length] = out[length - distance];
+      }
+    }
+  }
+
+  return out.subarray(0, length);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
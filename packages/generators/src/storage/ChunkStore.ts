@@ -0,0 +1,324 @@
+import type { EventBus } from '@worldlab/events';
+import { GENERATORS_VERSION } from '../version.js';
+import { getChunkCoord } from '../utils/hash.js';
+import { encodeChunk, decodeChunk, decodeChunkHeader } from '../serialization/ChunkCodec.js';
+import { hashChunk } from '../serialization/ChunkHash.js';
+import { hashGenerationConfig } from '../config/diff.js';
+import {
+  ChunkData,
+  ChunkDelta,
+  ChunkEdit,
+  ChunkRequestOptions,
+  ChunkSource,
+  ChunkStorageBackend,
+  GeneratorConfig
+} from '../types.js';
+
+type ChunkCoord = { x: number; z: number };
+
+export interface ChunkStoreOptions {
+  persistBase?: boolean; // guardar también el chunk base para no regenerarlo
+}
+
+/**
+ * Almacén persistente de chunks: chunk procedural base + log de ediciones
+ *
+ * El chunk base es determinista y puede regenerarse en cualquier momento;
+ * lo que se persiste por encima es el delta (alturas editadas, objetos
+ * eliminados y entidades añadidas), que se fusiona al cargar.
+ * También implementa ChunkSource para usarse directamente en ChunkStreamer.
+ */
+export class ChunkStore implements ChunkSource {
+  private source: ChunkSource;
+  private backend: ChunkStorageBackend;
+  private options: Required<ChunkStoreOptions>;
+  private keyPrefix: string;
+  private deltas = new Map<string, Promise<ChunkDelta>>();
+  private writeQueue = new Map<string, Promise<void>>();
+
+  constructor(
+    source: ChunkSource,
+    backend: ChunkStorageBackend,
+    options?: ChunkStoreOptions
+  ) {
+    this.source = source;
+    this.backend = backend;
+    this.options = {
+      persistBase: true,
+      ...options
+    };
+
+    // Cada semilla es un mundo distinto: sus datos no deben mezclarse
+    this.keyPrefix = `${source.getConfig().seed}/`;
+  }
+
+  /**
+   * Carga un chunk con sus ediciones aplicadas
+   * Los niveles de detalle reducidos se piden directamente a la fuente: no se
+   * persisten y no llevan ediciones (las celdas editadas no están en su rejilla)
+   */
+  async generateChunk(
+    chunkCoord: ChunkCoord,
+    callbacks?: {
+      onProgress?: (progress: number, stage?: string) => void;
+      onComplete?: (data: ChunkData) => void;
+      onError?: (error: Error) => void;
+    },
+    options?: ChunkRequestOptions
+  ): Promise<ChunkData> {
+    if (options?.lod) {
+      return this.source.generateChunk(chunkCoord, callbacks, options);
+    }
+
+    try {
+      const base = await this.loadBase(chunkCoord);
+      const delta = await this.getDelta(chunkCoord);
+      const chunk = ChunkStore.applyDelta(base, delta.edits);
+
+      callbacks?.onProgress?.(1);
+      callbacks?.onComplete?.(chunk);
+      return chunk;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      callbacks?.onError?.(err);
+      throw err;
+    }
+  }
+
+  getConfig(): GeneratorConfig {
+    return this.source.getConfig();
+  }
+
+  /**
+   * Añade ediciones al log de un chunk
+   */
+  async appendEdits(chunkCoord: ChunkCoord, edits: ChunkEdit[]): Promise<void> {
+    const delta = await this.getDelta(chunkCoord);
+    delta.edits.push(...edits);
+    await this.writeDelta(delta);
+  }
+
+  /**
+   * Edita la altura en una posición del mundo
+   */
+  async editHeight(
+    worldPosition: { x: number; z: number },
+    value: number,
+    mode: 'set' | 'add' = 'set'
+  ): Promise<void> {
+    const { chunkSize } = this.getConfig();
+    const coord = getChunkCoord(worldPosition, chunkSize);
+
+    await this.appendEdits(coord, [{
+      kind: 'height',
+      x: Math.floor(worldPosition.x) - coord.x * chunkSize,
+      z: Math.floor(worldPosition.z) - coord.z * chunkSize,
+      value,
+      mode
+    }]);
+  }
+
+  /**
+   * Persiste las entidades creadas en tiempo de ejecución ('entity:spawned')
+   */
+  trackSpawnedEntities(eventBus: EventBus): void {
+    eventBus.on('entity:spawned', payload => {
+      const coord = getChunkCoord(payload.position, this.getConfig().chunkSize);
+      this.appendEdits(coord, [{
+        kind: 'addObject',
+        object: {
+          type: payload.archetype,
+          position: { ...payload.position },
+          rotation: { x: 0, y: 0, z: 0, w: 1 },
+          scale: { x: 1, y: 1, z: 1 }
+        }
+      }]).catch(error => console.error('Failed to persist spawned entity:', error));
+    });
+  }
+
+  /**
+   * Devuelve el delta de un chunk (vacío si no tiene ediciones)
+   */
+  getDelta(chunkCoord: ChunkCoord): Promise<ChunkDelta> {
+    const key = this.deltaKey(chunkCoord);
+    const cached = this.deltas.get(key);
+    if (cached) return cached;
+
+    // Se guarda la promesa y no el resultado: las llamadas simultáneas
+    // comparten el mismo delta en lugar de crear uno cada una
+    const delta = this.loadDelta(key, chunkCoord);
+    this.deltas.set(key, delta);
+    delta.catch(() => {
+      if (this.deltas.get(key) === delta) this.deltas.delete(key);
+    });
+    return delta;
+  }
+
+  /**
+   * Descarta las ediciones de un chunk (vuelve al estado procedural)
+   */
+  async resetChunk(chunkCoord: ChunkCoord): Promise<void> {
+    const key = this.deltaKey(chunkCoord);
+    this.deltas.delete(key);
+    await this.enqueueWrite(key, () => this.backend.delete(key));
+  }
+
+  /**
+   * Coordenadas de todos los chunks con ediciones guardadas
+   */
+  async getEditedChunks(): Promise<ChunkCoord[]> {
+    const prefix = `${this.keyPrefix}delta/`;
+    const keys = await this.backend.keys();
+    return keys
+      .filter(key => key.startsWith(prefix))
+      .map(key => {
+        const [x, z] = key.slice(prefix.length).split(',').map(Number);
+        return { x, z };
+      });
+  }
+
+  /**
+   * Fusiona un chunk base con una lista de ediciones (sin mutar el base)
+   */
+  static applyDelta(base: ChunkData, edits: ChunkEdit[]): ChunkData {
+    if (edits.length === 0) return base;
+
+    const chunkSize = Math.round(Math.sqrt(base.heightmap.length));
+    const heightmap = new Float32Array(base.heightmap);
+    let objects = [...base.objects];
+    let heightsChanged = false;
+
+    for (const edit of edits) {
+      switch (edit.kind) {
+        case 'height': {
+          if (edit.x < 0 || edit.x >= chunkSize || edit.z < 0 || edit.z >= chunkSize) break;
+          const index = edit.z * chunkSize + edit.x;
+          heightmap[index] = edit.mode === 'add' ? heightmap[index] + edit.value : edit.value;
+          heightsChanged = true;
+          break;
+        }
+        case 'removeObject':
+          objects = objects.filter(obj => !ChunkStore.matchesObject(obj, edit));
+          break;
+        case 'addObject':
+          objects.push(edit.object);
+          break;
+      }
+    }
+
+    let { minHeight, maxHeight } = base.metadata;
+    if (heightsChanged) {
+      minHeight = Infinity;
+      maxHeight = -Infinity;
+      for (const h of heightmap) {
+        minHeight = Math.min(minHeight, h);
+        maxHeight = Math.max(maxHeight, h);
+      }
+    }
+
+    const chunk: ChunkData = {
+      ...base,
+      heightmap,
+      objects,
+      metadata: {
+        ...base.metadata,
+        minHeight,
+        maxHeight,
+        editCount: edits.length
+      }
+    };
+    // El hash describe el contenido final, no el procedural
+    chunk.metadata.contentHash = hashChunk(chunk);
+    return chunk;
+  }
+
+  private static matchesObject(
+    obj: ChunkData['objects'][number],
+    edit: Extract<ChunkEdit, { kind: 'removeObject' }>
+  ): boolean {
+    const epsilon = 1e-3;
+    return (
+      obj.type === edit.type &&
+      Math.abs(obj.position.x - edit.position.x) < epsilon &&
+      Math.abs(obj.position.y - edit.position.y) < epsilon &&
+      Math.abs(obj.position.z - edit.position.z) < epsilon
+    );
+  }
+
+  private baseKey(coord: ChunkCoord): string {
+    return `${this.keyPrefix}base/${coord.x},${coord.z}`;
+  }
+
+  private deltaKey(coord: ChunkCoord): string {
+    return `${this.keyPrefix}delta/${coord.x},${coord.z}`;
+  }
+
+  private async loadDelta(key: string, chunkCoord: ChunkCoord): Promise<ChunkDelta> {
+    const stored = await this.backend.get(key);
+    return stored
+      ? (JSON.parse(new TextDecoder().decode(stored)) as ChunkDelta)
+      : { coord: { ...chunkCoord }, edits: [] };
+  }
+
+  private async loadBase(chunkCoord: ChunkCoord): Promise<ChunkData> {
+    const key = this.baseKey(chunkCoord);
+
+    if (this.options.persistBase) {
+      const stored = await this.backend.get(key);
+      if (stored && this.isBaseCurrent(stored)) {
+        return decodeChunk(stored);
+      }
+    }
+
+    const base = await this.source.generateChunk(chunkCoord);
+
+    if (this.options.persistBase) {
+      const encoded = encodeChunk(base, { configHash: hashGenerationConfig(this.getConfig()) });
+      await this.enqueueWrite(key, () => this.backend.set(key, encoded));
+    }
+
+    return base;
+  }
+
+  /**
+   * Un base guardado con otra versión del generador o con otra config de
+   * generación (p. ej. distinta frecuencia con la misma semilla) se regenera
+   */
+  private isBaseCurrent(stored: Uint8Array): boolean {
+    try {
+      const header = decodeChunkHeader(stored);
+      return (
+        header.generatorVersion === GENERATORS_VERSION &&
+        header.configHash === hashGenerationConfig(this.getConfig())
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private writeDelta(delta: ChunkDelta): Promise<void> {
+    const key = this.deltaKey(delta.coord);
+    return this.enqueueWrite(key, () => {
+      // Serializar en el momento de escribir para incluir ediciones posteriores
+      const encoded = new TextEncoder().encode(JSON.stringify(delta));
+      return this.backend.set(key, encoded);
+    });
+  }
+
+  /**
+   * Serializa las escrituras por clave para evitar carreras entre ediciones
+   */
+  private enqueueWrite(key: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueue.get(key) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(write);
+
+    this.writeQueue.set(key, next);
+    next.finally(() => {
+      if (this.writeQueue.get(key) === next) {
+        this.writeQueue.delete(key);
+      }
+    }).catch(() => undefined);
+
+    return next;
+  }
+}
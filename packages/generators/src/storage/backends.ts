@@ -0,0 +1,153 @@
+import { ChunkStorageBackend } from '../types.js';
+
+/**
+ * Backend en memoria (pruebas y sesiones efímeras)
+ */
+export class MemoryStorageBackend implements ChunkStorageBackend {
+  private data = new Map<string, Uint8Array>();
+
+  async get(key: string): Promise<Uint8Array | null> {
+    return this.data.get(key) ?? null;
+  }
+
+  async set(key: string, data: Uint8Array): Promise<void> {
+    this.data.set(key, data);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.data.keys()];
+  }
+}
+
+/**
+ * Backend sobre un directorio del sistema de archivos (solo Node)
+ * Los módulos de Node se importan de forma diferida para no romper el bundle del navegador
+ */
+export class FileSystemStorageBackend implements ChunkStorageBackend {
+  private static readonly extension = '.bin';
+
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<Uint8Array | null> {
+    const fs = await import('fs/promises');
+    try {
+      const buffer = await fs.readFile(await this.pathFor(key));
+      return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async set(key: string, data: Uint8Array): Promise<void> {
+    const fs = await import('fs/promises');
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Escribir a un temporal y renombrar para no dejar archivos a medias
+    const target = await this.pathFor(key);
+    const temp = `${target}.tmp`;
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import('fs/promises');
+    await fs.rm(await this.pathFor(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    const fs = await import('fs/promises');
+    try {
+      const files = await fs.readdir(this.directory);
+      return files
+        .filter(file => file.endsWith(FileSystemStorageBackend.extension))
+        .map(file => decodeURIComponent(file.slice(0, -FileSystemStorageBackend.extension.length)));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async pathFor(key: string): Promise<string> {
+    const path = await import('path');
+    return path.join(this.directory, encodeURIComponent(key) + FileSystemStorageBackend.extension);
+  }
+}
+
+/**
+ * Backend sobre IndexedDB (navegador)
+ */
+export class IndexedDBStorageBackend implements ChunkStorageBackend {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private databaseName: string = 'worldlab-chunks',
+    private storeName: string = 'chunks'
+  ) {}
+
+  async get(key: string): Promise<Uint8Array | null> {
+    const result = await this.request<ArrayBuffer | Uint8Array | undefined>(
+      'readonly',
+      store => store.get(key)
+    );
+    if (!result) return null;
+    return result instanceof Uint8Array ? result : new Uint8Array(result);
+  }
+
+  async set(key: string, data: Uint8Array): Promise<void> {
+    await this.request('readwrite', store => store.put(data, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.map(String);
+  }
+
+  /**
+   * Cierra la conexión con la base de datos
+   */
+  async close(): Promise<void> {
+    if (this.dbPromise) {
+      (await this.dbPromise).close();
+      this.dbPromise = null;
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
@@ -0,0 +1,274 @@
+import type { EventBus } from '@worldlab/events';
+import { getChunkCoord } from '../utils/hash.js';
+import { LRUCache } from '../utils/LRUCache.js';
+import { MAX_LOD } from '../utils/grid.js';
+import { ChunkData, ChunkSource, ChunkStreamerConfig } from '../types.js';
+
+type ChunkCoord = { x: number; z: number };
+
+/**
+ * Streaming de chunks alrededor de un foco (jugador, agente o cámara)
+ *
+ * - Genera los chunks dentro de loadRadius, los más cercanos primero
+ * - Descarga los que salen de unloadRadius y emite 'chunk:unloaded'
+ * - Guarda los chunks descargados en una caché LRU limitada por memoria,
+ *   de modo que volver a una zona reciente no requiere regenerarla
+ * - Con lodRadii, pide los chunks lejanos a menor resolución y los vuelve a
+ *   cargar (unloaded + generated) cuando cambia el nivel que les corresponde
+ */
+export class ChunkStreamer {
+  private source: ChunkSource;
+  private config: ChunkStreamerConfig;
+  private eventBus?: EventBus;
+  private chunkSize: number;
+
+  private loadedChunks = new Map<string, ChunkData>();
+  private cache: LRUCache<string, ChunkData>;
+  private focus: { x: number; z: number } = { x: 0, z: 0 };
+  private pendingUpdate: Promise<void> | null = null;
+  private dirty = false;
+
+  constructor(
+    source: ChunkSource,
+    config?: Partial<ChunkStreamerConfig>,
+    eventBus?: EventBus
+  ) {
+    this.source = source;
+    this.config = {
+      loadRadius: 2,
+      unloadRadius: 3,
+      cacheBudgetBytes: 64 * 1024 * 1024,
+      ...config
+    };
+
+    if (this.config.unloadRadius < this.config.loadRadius) {
+      throw new Error(
+        `unloadRadius (${this.config.unloadRadius}) must be >= loadRadius (${this.config.loadRadius})`
+      );
+    }
+
+    const { lodRadii = [] } = this.config;
+    if (lodRadii.length > MAX_LOD) {
+      throw new Error(`lodRadii has ${lodRadii.length} entries, at most ${MAX_LOD} are supported`);
+    }
+    if (lodRadii.some((radius, i) => i > 0 && radius < lodRadii[i - 1])) {
+      throw new Error('lodRadii must be in ascending order');
+    }
+
+    this.eventBus = eventBus;
+    this.chunkSize = source.getConfig().chunkSize;
+    this.cache = new LRUCache(this.config.cacheBudgetBytes, ChunkStreamer.estimateChunkBytes);
+  }
+
+  /**
+   * Estimación del tamaño en memoria de un chunk en bytes
+   */
+  static estimateChunkBytes(chunk: ChunkData): number {
+    // ~ 3 vectores + cuaternión + tipo por objeto
+    const bytesPerObject = 128;
+    return (
+      chunk.heightmap.byteLength +
+      chunk.biomemap.byteLength +
+      chunk.temperature.byteLength +
+      chunk.moisture.byteLength +
+      (chunk.watermap?.byteLength ?? 0) +
+      (chunk.roadmask?.byteLength ?? 0) +
+      (chunk.voxels?.density.byteLength ?? 0) +
+      (chunk.densityMesh ? chunk.densityMesh.vertices.byteLength + chunk.densityMesh.indices.byteLength : 0) +
+      (chunk.biomeWeights?.ids.byteLength ?? 0) +
+      (chunk.biomeWeights?.weights.byteLength ?? 0) +
+      chunk.objects.length * bytesPerObject
+    );
+  }
+
+  static chunkKey(coord: ChunkCoord): string {
+    return `${coord.x},${coord.z}`;
+  }
+
+  /**
+   * Nivel de detalle de un chunk generado (0 si es de resolución completa)
+   */
+  static chunkLod(chunk: ChunkData): number {
+    return chunk.metadata.lod ?? 0;
+  }
+
+  // En caché conviven varios niveles de un mismo chunk
+  private static cacheKey(coord: ChunkCoord, lod: number): string {
+    return `${ChunkStreamer.chunkKey(coord)}@${lod}`;
+  }
+
+  /**
+   * Actualiza la posición del foco en coordenadas del mundo
+   */
+  setFocus(worldPosition: { x: number; z: number }): void {
+    const previous = getChunkCoord(this.focus, this.chunkSize);
+    this.focus = { x: worldPosition.x, z: worldPosition.z };
+
+    const current = getChunkCoord(this.focus, this.chunkSize);
+    if (current.x !== previous.x || current.z !== previous.z) {
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Descarga y carga chunks según el foco actual
+   * Las llamadas concurrentes comparten la misma actualización en curso
+   */
+  update(): Promise<void> {
+    if (this.pendingUpdate) {
+      return this.pendingUpdate;
+    }
+
+    this.pendingUpdate = this.runUpdate().finally(() => {
+      this.pendingUpdate = null;
+    });
+    return this.pendingUpdate;
+  }
+
+  /**
+   * Devuelve un chunk cargado, si existe
+   */
+  getChunk(coord: ChunkCoord): ChunkData | undefined {
+    return this.loadedChunks.get(ChunkStreamer.chunkKey(coord));
+  }
+
+  isLoaded(coord: ChunkCoord): boolean {
+    return this.loadedChunks.has(ChunkStreamer.chunkKey(coord));
+  }
+
+  getLoadedChunks(): ChunkData[] {
+    return [...this.loadedChunks.values()];
+  }
+
+  getStats(): { loaded: number; cached: number; cacheBytes: number } {
+    return {
+      loaded: this.loadedChunks.size,
+      cached: this.cache.size,
+      cacheBytes: this.cache.usedSize
+    };
+  }
+
+  /**
+   * Descarga todos los chunks y vacía la caché
+   */
+  clear(): void {
+    for (const chunk of this.loadedChunks.values()) {
+      this.emitUnloaded(chunk.coord);
+    }
+    this.loadedChunks.clear();
+    this.cache.clear();
+  }
+
+  private async runUpdate(): Promise<void> {
+    do {
+      this.dirty = false;
+      const center = getChunkCoord(this.focus, this.chunkSize);
+
+      this.unloadDistantChunks(center);
+
+      for (const coord of this.getChunksToLoad(center)) {
+        // El foco se movió mientras generábamos: recalcular prioridades
+        if (this.dirty) break;
+        await this.loadChunk(coord);
+      }
+    } while (this.dirty);
+  }
+
+  private unloadDistantChunks(center: ChunkCoord): void {
+    for (const [key, chunk] of this.loadedChunks) {
+      if (this.chebyshevDistance(chunk.coord, center) > this.config.unloadRadius) {
+        this.loadedChunks.delete(key);
+        this.cache.set(ChunkStreamer.cacheKey(chunk.coord, ChunkStreamer.chunkLod(chunk)), chunk);
+        this.emitUnloaded(chunk.coord);
+      }
+    }
+  }
+
+  /**
+   * Nivel de detalle para un chunk a cierta distancia (en chunks) del centro:
+   * el primer nivel cuyo radio lo alcanza, o el siguiente al último
+   */
+  private getDesiredLod(coord: ChunkCoord, center: ChunkCoord): number {
+    const { lodRadii = [] } = this.config;
+    const distance = this.chebyshevDistance(coord, center);
+    const lod = lodRadii.findIndex(radius => distance <= radius);
+    return lod === -1 ? lodRadii.length : lod;
+  }
+
+  /**
+   * Coordenadas faltantes (o cargadas con otro nivel de detalle) dentro de
+   * loadRadius ordenadas por cercanía al foco
+   */
+  private getChunksToLoad(center: ChunkCoord): ChunkCoord[] {
+    const { loadRadius } = this.config;
+    const coords: ChunkCoord[] = [];
+
+    for (let dz = -loadRadius; dz <= loadRadius; dz++) {
+      for (let dx = -loadRadius; dx <= loadRadius; dx++) {
+        const coord = { x: center.x + dx, z: center.z + dz };
+        const loaded = this.loadedChunks.get(ChunkStreamer.chunkKey(coord));
+        if (!loaded || ChunkStreamer.chunkLod(loaded) !== this.getDesiredLod(coord, center)) {
+          coords.push(coord);
+        }
+      }
+    }
+
+    const distanceToFocus = (coord: ChunkCoord) => {
+      const cx = (coord.x + 0.5) * this.chunkSize - this.focus.x;
+      const cz = (coord.z + 0.5) * this.chunkSize - this.focus.z;
+      return cx * cx + cz * cz;
+    };
+
+    return coords.sort((a, b) => distanceToFocus(a) - distanceToFocus(b));
+  }
+
+  private async loadChunk(coord: ChunkCoord): Promise<void> {
+    const key = ChunkStreamer.chunkKey(coord);
+    const lod = this.getDesiredLod(coord, getChunkCoord(this.focus, this.chunkSize));
+    const cacheKey = ChunkStreamer.cacheKey(coord, lod);
+
+    let chunk = this.cache.delete(cacheKey);
+    if (!chunk) {
+      try {
+        chunk = await this.source.generateChunk(coord, undefined, lod > 0 ? { lod } : undefined);
+      } catch (error) {
+        console.error('Failed to generate chunk:', coord, error);
+        return;
+      }
+    }
+
+    // El foco pudo alejarse durante la generación
+    const center = getChunkCoord(this.focus, this.chunkSize);
+    if (this.chebyshevDistance(coord, center) > this.config.unloadRadius) {
+      this.cache.set(cacheKey, chunk);
+      return;
+    }
+
+    // Cambio de nivel: el chunk anterior se descarga antes de emitir el nuevo
+    const previous = this.loadedChunks.get(key);
+    if (previous) {
+      this.cache.set(ChunkStreamer.cacheKey(coord, ChunkStreamer.chunkLod(previous)), previous);
+      this.emitUnloaded(coord);
+    }
+
+    this.loadedChunks.set(key, chunk);
+    this.eventBus?.emit('chunk:generated', {
+      chunkCoord: chunk.coord,
+      lod,
+      heightmap: chunk.heightmap,
+      biomemap: chunk.biomemap,
+      biomeWeights: chunk.biomeWeights,
+      roadmask: chunk.roadmask,
+      densityMesh: chunk.densityMesh,
+      objects: chunk.objects
+    });
+  }
+
+  private emitUnloaded(coord: ChunkCoord): void {
+    this.eventBus?.emit('chunk:unloaded', { chunkCoord: coord });
+  }
+
+  private chebyshevDistance(a: ChunkCoord, b: ChunkCoord): number {
+    return Math.max(Math.abs(a.x - b.x), Math.abs(a.z - b.z));
+  }
+}
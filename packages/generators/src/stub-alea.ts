@@ -1,4 +0,0 @@
-// Stub temporal para alea
-export default function alea(seed: string | number): () => number {
-  return Math.random;
-}
\ No newline at end of file
@@ -1,4 +1,6 @@
 // Tipos y interfaces principales para el sistema de generación
+import type { RNG } from '@worldlab/core';
+import type { SeedHasher } from './utils/hash.js';
 
 export interface BiomeConfig {
   id: number;
@@ -6,6 +8,49 @@ export interface BiomeConfig {
   color: { r: number; g: number; b: number };
   friction?: number;
   objectDensity?: number;
+  objects?: ObjectPlacementRule[]; // qué objetos aparecen en el bioma y cómo
+}
+
+/**
+ * Regla de colocación de un tipo de objeto dentro de un bioma
+ */
+export interface ObjectPlacementRule {
+  type: string;
+  weight: number; // probabilidad relativa frente a las otras reglas del bioma
+  minSpacing: number; // distancia mínima (m) a otros objetos del mismo tipo
+  minSlope?: number; // pendiente en grados
+  maxSlope?: number;
+  minHeight?: number; // en unidades del heightmap
+  maxHeight?: number;
+  cluster?: ObjectClusterParams;
+  exclusions?: Array<{ type: string; radius: number }>; // radio libre de otros tipos
+  alignToSurface?: number; // 0 = vertical, 1 = perpendicular al terreno
+}
+
+// Cada punto que supera el sorteo de aparición suma a su agrupación los `count`
+// puntos del mismo tipo más cercanos a menos de `radius` (ver ObjectPlacer.placeObjects)
+export interface ObjectClusterParams {
+  count: number;
+  radius: number;
+}
+
+// mix32: hash con buena distribución | legacy: generateHash original (no reproduce mundos antiguos)
+export type HashAlgorithm = 'mix32' | 'legacy';
+
+// fbm: colinas suaves | ridged: cordilleras | billow: dunas y lomas redondeadas
+export type HeightmapNoiseMode = 'fbm' | 'ridged' | 'billow';
+
+export interface DomainWarpParams {
+  frequency: number;
+  strength: number; // desplazamiento máximo en unidades del mundo
+  octaves?: number;
+}
+
+export interface ContinentalnessParams {
+  frequency: number; // muy baja: escala de continentes
+  threshold: number; // valor de ruido [-1, 1] donde está la costa
+  coastWidth: number; // ancho de la transición tierra/mar en unidades de ruido
+  oceanDepth: number; // profundidad del fondo oceánico (queda en -oceanDepth)
 }
 
 export interface GeneratorConfig {
@@ -19,6 +64,11 @@ export interface GeneratorConfig {
     persistence: number;
     lacunarity: number;
     amplitude: number;
+    noiseMode?: HeightmapNoiseMode; // 'fbm' por defecto
+    ridgeOffset?: number; // solo 'ridged'
+    ridgeGain?: number; // solo 'ridged'
+    domainWarp?: DomainWarpParams;
+    continentalness?: ContinentalnessParams;
   };
 
   temperatureParams: {
@@ -31,16 +81,141 @@ export interface GeneratorConfig {
     frequency: number;
   };
 
+  erosionParams?: ErosionParams; // opcional: sin erosión si no se define
+  waterParams?: WaterParams; // opcional: sin ríos ni lagos si no se define
+  settlementParams?: SettlementParams; // opcional: sin asentamientos ni caminos si no se define
+  densityParams?: DensityParams; // opcional: vóxeles y malla 3D (cuevas, voladizos)
+  hashAlgorithm?: HashAlgorithm; // 'mix32' por defecto; 'legacy' solo cambia la función de hash
+
   biomes: BiomeConfig[];
-  biomeLookupTable: number[][]; // [humidity][temperature] -> biomeId
+  biomeLookupTable: number[][]; // [humidity][temperature] -> biomeId, de cualquier tamaño N×M
+  biomeBlendParams?: BiomeBlendParams; // opcional: pesos de mezcla entre biomas
+}
+
+/**
+ * Config parcial para el constructor, updateConfig y los presets: los objetos
+ * de parámetros (heightmapParams, erosionParams...) se mezclan campo a campo,
+ * también los anidados (heightmapParams.domainWarp), con los actuales en
+ * lugar de sustituirlos
+ */
+export type GeneratorConfigOverrides = {
+  [K in keyof GeneratorConfig]?: ConfigOverride<GeneratorConfig[K]>;
+};
+
+// Arrays y valores simples se sustituyen; los objetos admiten cualquier subconjunto
+type ConfigOverride<T> = T extends unknown[] | number | string | boolean
+  ? T
+  : { [K in keyof T]?: ConfigOverride<T[K]> };
+
+export interface BiomeBlendParams {
+  blendWidth: number; // ancho de la transición en unidades normalizadas de temperatura/humedad
+  topK?: number; // biomas por celda (1-4, 3 por defecto)
+  jitterStrength?: number; // desplazamiento de las fronteras con ruido (0 desactiva)
+  jitterFrequency?: number;
+}
+
+/**
+ * Pesos de mezcla por celda: los k biomas con más peso, ordenados de mayor a menor
+ * ids[i * k + j] / weights[i * k + j] para la celda i; los pesos de cada celda suman 1
+ */
+export interface BiomeWeights {
+  k: number;
+  ids: Uint8Array;
+  weights: Float32Array;
+}
+
+export interface ErosionParams {
+  hydraulicIterations: number; // gotas por chunk (0 desactiva la erosión hidráulica)
+  thermalIterations: number; // pasadas de erosión térmica (0 la desactiva)
+  regionSize?: number; // separación de las ventanas de simulación (ver ErosionSimulator)
+  dropletLifetime?: number;
+  inertia?: number;
+  sedimentCapacity?: number;
+  erodeSpeed?: number;
+  depositSpeed?: number;
+  evaporateSpeed?: number;
+  talus?: number; // diferencia de altura máxima estable entre celdas vecinas
+  thermalRate?: number;
+}
+
+export interface WaterParams {
+  riverThreshold: number; // celdas de cuenca necesarias para formar un río
+  riverReach?: number; // distancia máxima (celdas) que se sigue el flujo aguas arriba
+  lakeRadius?: number; // radio máximo de un lago alrededor de su depresión
+  lakeMinAccumulation?: number; // cuenca mínima para que una depresión se llene
+  seaLevel?: number; // alturas por debajo se marcan como océano
+  moistureRadius?: number; // alcance del aumento de humedad cerca del agua
+  moistureBoost?: number; // humedad añadida junto al agua [0, 1]
+}
+
+/**
+ * Campo de densidad 3D: sólido donde density > 0
+ * density = (alturaSuperficie - y) / falloff + ruido3D * strength, con túneles
+ * donde |ruidoCuevas| < caves.threshold
+ */
+export interface DensityParams {
+  minY: number; // rango vertical de los vóxeles, en unidades del mundo
+  maxY: number;
+  verticalScale?: number; // unidades del mundo por unidad del heightmap (10, como el viewer)
+  falloff?: number; // metros bajo la superficie en que el sesgo del heightmap vale 1 (8 por defecto)
+  frequency: number;
+  octaves: number;
+  persistence?: number;
+  lacunarity?: number;
+  strength: number; // peso del ruido 3D frente al heightmap (0 = solo heightmap)
+  caves?: { frequency: number; threshold: number }; // threshold en (0, 1): más alto, túneles más anchos
+}
+
+// Valores del watermap
+export interface SettlementParams {
+  regionSize: number; // lado (m) de la región que puede contener un asentamiento
+  density?: number; // probabilidad de que una región tenga asentamiento
+  allowedBiomes?: number[]; // biomas donde se puede fundar un asentamiento
+  radius?: number; // radio (m) del asentamiento
+  maxHeightRange?: number; // desnivel máximo (m) dentro del radio
+  minBuildings?: number;
+  maxBuildings?: number;
+  roadWidth?: number; // ancho (m) de los caminos
+  roadStep?: number; // resolución (m) de la búsqueda de caminos
+  slopeCost?: number; // coste extra por metro de desnivel
+  waterCost?: number; // coste extra por metro recorrido bajo el nivel del mar
 }
 
+export const WATER_NONE = 0;
+export const WATER_RIVER = 1;
+export const WATER_LAKE = 2;
+export const WATER_OCEAN = 3;
+
 export interface GenerationContext {
   seed: number | string;
   chunkCoord: { x: number; z: number };
   chunkSize: number;
   config: GeneratorConfig;
   heightmap?: Float32Array;
+  watermap?: Uint8Array; // con borde de watermapPadding celdas por lado
+  watermapPadding?: number;
+  lod?: number; // nivel de detalle (0 = completo); ver getLodGrid
+}
+
+/**
+ * Vóxeles de un chunk: una muestra por unidad del mundo, con los dos bordes
+ * horizontales incluidos (size.x = size.z = chunkSize + 1) para que las mallas
+ * de chunks vecinos se cierren. density[(y * size.z + z) * size.x + x]
+ * corresponde a la posición local (x, minY + y, z).
+ */
+export interface VoxelChunk {
+  size: { x: number; y: number; z: number };
+  minY: number;
+  density: Float32Array;
+}
+
+/**
+ * Malla de triángulos indexada, lista para ShapeOptions 'trimesh' de PhysicsWorld
+ * Vértices (x, y, z) relativos a la esquina del chunk (coord * chunkSize, 0)
+ */
+export interface TriMesh {
+  vertices: Float32Array;
+  indices: Uint32Array;
 }
 
 export interface ObjectInstance {
@@ -56,15 +231,105 @@ export interface ChunkData {
   biomemap: Uint8Array;
   temperature: Float32Array;
   moisture: Float32Array;
+  watermap?: Uint8Array; // WATER_* por celda, solo si hay waterParams
+  roadmask?: Uint8Array; // 1 en las celdas de camino, solo si hay settlementParams
+  biomeWeights?: BiomeWeights; // solo si hay biomeBlendParams
+  voxels?: VoxelChunk; // solo si hay densityParams
+  densityMesh?: TriMesh; // isosuperficie de voxels (marching cubes)
   objects: ObjectInstance[];
   metadata: {
     minHeight: number;
     maxHeight: number;
     generationTime: number;
+    lod?: number; // solo en chunks de detalle reducido: las capas siguen getLodGrid
     [key: string]: any;
   };
 }
 
 export interface Generator<T> {
   generate(context: GenerationContext): T;
-}
\ No newline at end of file
+}
+
+/**
+ * Etapa del pipeline de WorldGenerator
+ *
+ * inputs y outputs son nombres de campos de ChunkData o de datos intermedios
+ * (p. ej. 'paddedHeightmap'); sirven para validar el orden de las etapas
+ * antes de generar.
+ */
+export interface GeneratorStage {
+  name: string;
+  inputs: string[];
+  outputs: string[];
+  // 'global': misma semilla en todo el mundo (campos continuos entre chunks)
+  // 'chunk': semilla distinta en cada chunk
+  seedScope: 'global' | 'chunk';
+  enabled?: (config: GeneratorConfig) => boolean; // etapas opcionales según config
+  // Si sabe trabajar con la rejilla reducida de getLodGrid; en chunks con
+  // lod > 0 solo se ejecutan estas etapas (las demás capas quedan vacías)
+  supportsLod?: boolean;
+  run(context: StageContext): void | Promise<void>;
+}
+
+export interface StageContext extends GenerationContext {
+  globalSeed: number;
+  seed: number; // hasher.hash(semilla global o del chunk, nombre de la etapa)
+  hasher: SeedHasher; // según config.hashAlgorithm
+  rng: RNG; // RNG de la etapa (new RNG(seed)); rng.derive('nombre') para subflujos
+  prng: () => number; // rng.toFunction(), para APIs que esperan una función
+  chunk: Partial<ChunkData>; // campos que formarán el ChunkData final
+  intermediate: Record<string, unknown>; // datos entre etapas que no se devuelven
+}
+
+/**
+ * Fuente de chunks: cualquier objeto capaz de generar ChunkData bajo demanda
+ * (WorldGenerator o un pool de workers)
+ */
+export interface ChunkRequestOptions {
+  lod?: number; // 0 (por defecto) a MAX_LOD: mitad, cuarto y octavo de resolución
+}
+
+export interface ChunkSource {
+  generateChunk(
+    chunkCoord: { x: number; z: number },
+    callbacks?: {
+      onProgress?: (progress: number, stage?: string) => void;
+      onComplete?: (data: ChunkData) => void;
+      onError?: (error: Error) => void;
+    },
+    options?: ChunkRequestOptions
+  ): Promise<ChunkData>;
+  getConfig(): GeneratorConfig;
+}
+
+export interface ChunkStreamerConfig {
+  loadRadius: number; // chunks alrededor del foco que deben estar cargados
+  unloadRadius: number; // chunks más allá de este radio se descargan
+  cacheBudgetBytes: number; // memoria máxima para chunks descargados en caché
+  // Distancia máxima (en chunks) de cada nivel de detalle: lodRadii[n] para el
+  // nivel n; más allá, el siguiente nivel hasta loadRadius. Sin definir: todo a lod 0
+  lodRadii?: number[];
+}
+
+/**
+ * Ediciones persistentes aplicadas sobre el chunk procedural base
+ */
+export type ChunkEdit =
+  | { kind: 'height'; x: number; z: number; value: number; mode: 'set' | 'add' } // x, z locales al chunk
+  | { kind: 'removeObject'; type: string; position: { x: number; y: number; z: number } }
+  | { kind: 'addObject'; object: ObjectInstance };
+
+export interface ChunkDelta {
+  coord: { x: number; z: number };
+  edits: ChunkEdit[];
+}
+
+/**
+ * Almacenamiento clave-valor binario (sistema de archivos, IndexedDB, memoria)
+ */
+export interface ChunkStorageBackend {
+  get(key: string): Promise<Uint8Array | null>;
+  set(key: string, data: Uint8Array): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
@@ -0,0 +1,100 @@
+/**
+ * Caché LRU (Least Recently Used) con presupuesto de memoria
+ * Usa el orden de inserción de Map para acceso y desalojo en O(1)
+ */
+export class LRUCache<K, V> {
+  private entries = new Map<K, { value: V; size: number }>();
+  private totalSize = 0;
+
+  constructor(
+    private maxSize: number,
+    private sizeOf: (value: V) => number = () => 1
+  ) {}
+
+  /**
+   * Obtiene un valor y lo marca como usado recientemente
+   */
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    // Reinsertar para moverlo al final (más reciente)
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Inserta un valor, desalojando los menos recientes si se excede el presupuesto
+   * Devuelve los pares desalojados
+   */
+  set(key: K, value: V): Array<[K, V]> {
+    this.delete(key);
+
+    const size = this.sizeOf(value);
+    // Un valor más grande que todo el presupuesto no se guarda
+    if (size > this.maxSize) {
+      return [[key, value]];
+    }
+
+    this.entries.set(key, { value, size });
+    this.totalSize += size;
+
+    return this.evict();
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Elimina un valor sin desalojo (p. ej. cuando vuelve a cargarse)
+   */
+  delete(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    this.totalSize -= entry.size;
+    return entry.value;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalSize = 0;
+  }
+
+  /**
+   * Cambia el presupuesto y desaloja lo que sobre
+   */
+  resize(maxSize: number): Array<[K, V]> {
+    this.maxSize = maxSize;
+    return this.evict();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get usedSize(): number {
+    return this.totalSize;
+  }
+
+  keys(): IterableIterator<K> {
+    return this.entries.keys();
+  }
+
+  private evict(): Array<[K, V]> {
+    const evicted: Array<[K, V]> = [];
+
+    while (this.totalSize > this.maxSize && this.entries.size > 0) {
+      const oldestKey = this.entries.keys().next().value as K;
+      const entry = this.entries.get(oldestKey)!;
+      this.entries.delete(oldestKey);
+      this.totalSize -= entry.size;
+      evicted.push([oldestKey, entry.value]);
+    }
+
+    return evicted;
+  }
+}
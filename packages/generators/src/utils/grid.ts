@@ -0,0 +1,34 @@
+/**
+ * Extrae una región cuadrada de una rejilla cuadrada
+ */
+export function extractRegion<T extends Float32Array | Uint8Array>(
+  data: T,
+  size: number,
+  offset: number,
+  outSize: number
+): T {
+  const result = new (data.constructor as { new (length: number): T })(outSize * outSize);
+
+  for (let z = 0; z < outSize; z++) {
+    const start = (z + offset) * size + offset;
+    result.set(data.subarray(start, start + outSize), z * outSize);
+  }
+
+  return result;
+}
+
+// Nivel de detalle más bajo: un octavo de la resolución
+export const MAX_LOD = 3;
+
+/**
+ * Rejilla de muestras de un chunk para un nivel de detalle
+ * lod 0: chunkSize × chunkSize celdas, una por unidad del mundo
+ * lod n > 0: una muestra cada 2^n unidades con los dos bordes incluidos
+ * (chunkSize / 2^n + 1 por lado), de modo que chunks vecinos del mismo nivel
+ * comparten exactamente las alturas del borde
+ */
+export function getLodGrid(chunkSize: number, lod: number): { step: number; size: number } {
+  if (lod === 0) return { step: 1, size: chunkSize };
+  const step = 1 << lod;
+  return { step, size: chunkSize / step + 1 };
+}
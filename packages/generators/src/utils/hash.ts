@@ -1,6 +1,15 @@
+import type { HashAlgorithm } from '../types.js';
+
 /**
  * Genera un hash entero de 32 bits determinista
  * Rápido, determinista y no criptográfico
+ *
+ * Algoritmo legado: concatena las entradas sin separador y mezcla poco, así
+ * que (1, 23) y (12, 3) coinciden y entradas vecinas dan hashes parecidos.
+ * Se mantiene como hashAlgorithm: 'legacy', que solo cambia esta función: el
+ * resto de la derivación de semillas (RNG, ruido, objetos) es la actual, así
+ * que no reproduce mundos de versiones anteriores. El código nuevo debe usar
+ * hash32 o un SeedHasher.
  */
 export function generateHash(...inputs: any[]): number {
   let hash = 0;
@@ -14,6 +23,109 @@ export function generateHash(...inputs: any[]): number {
   return hash;
 }
 
+/**
+ * Número pseudoaleatorio en [0, 1) derivado de varias entradas
+ * Separa las entradas (para que (1, 23) y (12, 3) no coincidan) y mezcla el
+ * resultado con el finalizador de MurmurHash3, ya que generateHash devuelve
+ * valores muy parecidos para entradas consecutivas
+ */
+export function hashToUnit(...inputs: any[]): number {
+  let hash = generateHash(...inputs.map(input => `${input}|`));
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 4294967296;
+}
+
+const scratch = new DataView(new ArrayBuffer(8));
+
+/**
+ * MurmurHash3 (x86, 32 bits) sobre una codificación sin ambigüedad de las
+ * entradas: cada una lleva una etiqueta de tipo, los números se codifican
+ * como float64 y los textos con su longitud
+ */
+function murmur32(seed: number, inputs: unknown[]): number {
+  let hash = seed;
+  let words = 0;
+
+  const mix = (word: number) => {
+    let k = Math.imul(word, 0xcc9e2d51);
+    k = (k << 15) | (k >>> 17);
+    k = Math.imul(k, 0x1b873593);
+    hash ^= k;
+    hash = (hash << 13) | (hash >>> 19);
+    hash = (Math.imul(hash, 5) + 0xe6546b64) | 0;
+    words++;
+  };
+
+  for (const input of inputs) {
+    if (typeof input === 'number') {
+      mix(1);
+      scratch.setFloat64(0, input === 0 ? 0 : input); // -0 y 0 son la misma entrada
+      mix(scratch.getInt32(0));
+      mix(scratch.getInt32(4));
+    } else {
+      const str = String(input);
+      mix(2);
+      mix(str.length);
+      for (let i = 0; i < str.length; i += 2) {
+        mix(str.charCodeAt(i) | ((i + 1 < str.length ? str.charCodeAt(i + 1) : 0) << 16));
+      }
+    }
+  }
+
+  // Finalizador: cada bit de entrada afecta a todos los de salida
+  hash ^= words * 4;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash | 0;
+}
+
+/**
+ * Hash de 32 bits con buena distribución (entero con signo, como generateHash)
+ */
+export function hash32(...inputs: unknown[]): number {
+  return murmur32(0x9747b28c, inputs);
+}
+
+/**
+ * Hash de 64 bits: dos carriles de murmur32 con semillas distintas, cruzados
+ */
+export function hash64(...inputs: unknown[]): bigint {
+  let high = murmur32(0x9747b28c, inputs);
+  let low = murmur32(0x3c6ef372, inputs);
+  high = (high + low) | 0;
+  low = (low + high) | 0;
+  return (BigInt(high >>> 0) << 32n) | BigInt(low >>> 0);
+}
+
+/**
+ * Hash de semillas según el algoritmo configurado
+ * hash: semillas derivadas (enteros de 32 bits con signo)
+ * unit: número pseudoaleatorio en [0, 1)
+ */
+export interface SeedHasher {
+  algorithm: HashAlgorithm;
+  hash(...inputs: unknown[]): number;
+  unit(...inputs: unknown[]): number;
+}
+
+export function createSeedHasher(algorithm: HashAlgorithm = 'mix32'): SeedHasher {
+  if (algorithm === 'legacy') {
+    return { algorithm, hash: generateHash, unit: hashToUnit };
+  }
+  return {
+    algorithm,
+    hash: hash32,
+    unit: (...inputs) => (hash32(...inputs) >>> 0) / 4294967296
+  };
+}
+
 /**
  * Convierte coordenada del mundo a coordenada de chunk
  */
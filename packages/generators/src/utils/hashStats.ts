@@ -0,0 +1,81 @@
+import { hash32 } from './hash.js';
+
+export type HashFn = (...inputs: unknown[]) => number;
+
+// Desviación máxima de 0.5 en la probabilidad de que cambie cada bit de salida
+export const AVALANCHE_TOLERANCE = 0.05;
+// Colisiones permitidas respecto a las esperadas para un hash ideal
+export const COLLISION_FACTOR = 3;
+
+export interface HashStats {
+  avalancheBias: number;
+  collisions: number;
+  expectedCollisions: number;
+  ambiguous: boolean; // (1, 23) y (12, 3) dan el mismo hash
+  passed: boolean; // dentro de los umbrales
+}
+
+/**
+ * Para coordenadas (x, z) aleatorias, cambia cada bit de x y cuenta qué bits
+ * del hash cambian; devuelve la peor desviación respecto a 0.5
+ */
+export function avalancheBias(hash: HashFn, samples: number): number {
+  const flips = new Array<number>(32).fill(0);
+  let trials = 0;
+  let state = 0x2545f491;
+  const next = () => (state = hash32(state, 'avalanche'));
+
+  for (let sample = 0; sample < samples; sample++) {
+    const x = next() >> 12; // coordenadas de chunk en un rango realista
+    const z = next() >> 12;
+    const base = hash(12345, x, z);
+
+    for (let bit = 0; bit < 20; bit++) {
+      const diff = base ^ hash(12345, x ^ (1 << bit), z);
+      for (let out = 0; out < 32; out++) {
+        if ((diff >>> out) & 1) flips[out]++;
+      }
+      trials++;
+    }
+  }
+
+  return Math.max(...flips.map(count => Math.abs(count / trials - 0.5)));
+}
+
+/**
+ * Colisiones entre los hashes de una rejilla de coordenadas (x, z)
+ */
+export function countCollisions(hash: HashFn, side: number): { found: number; expected: number } {
+  const seen = new Set<number>();
+  let found = 0;
+
+  for (let z = -side / 2; z < side / 2; z++) {
+    for (let x = -side / 2; x < side / 2; x++) {
+      const value = hash(12345, x, z);
+      if (seen.has(value)) found++;
+      else seen.add(value);
+    }
+  }
+
+  const n = side * side;
+  return { found, expected: (n * n) / 2 ** 33 };
+}
+
+/**
+ * Avalancha, colisiones (~200k coordenadas) y ambigüedad de un hash de semillas
+ */
+export function measureHash(hash: HashFn): HashStats {
+  const bias = avalancheBias(hash, 2000);
+  const { found, expected } = countCollisions(hash, 448);
+  const ambiguous = hash(1, 23) === hash(12, 3);
+
+  return {
+    avalancheBias: bias,
+    collisions: found,
+    expectedCollisions: expected,
+    ambiguous,
+    passed: bias <= AVALANCHE_TOLERANCE &&
+      found <= Math.max(COLLISION_FACTOR * expected, 10) &&
+      !ambiguous
+  };
+}
@@ -0,0 +1,57 @@
+export interface Quaternion {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+type Vector3 = { x: number; y: number; z: number };
+
+/**
+ * Rotación de `angle` radianes alrededor de un eje unitario
+ */
+export function quaternionFromAxisAngle(axis: Vector3, angle: number): Quaternion {
+  const half = angle / 2;
+  const s = Math.sin(half);
+  return { x: axis.x * s, y: axis.y * s, z: axis.z * s, w: Math.cos(half) };
+}
+
+/**
+ * Rotación mínima que lleva el vector unitario `from` a `to`
+ */
+export function quaternionFromUnitVectors(from: Vector3, to: Vector3): Quaternion {
+  const dot = from.x * to.x + from.y * to.y + from.z * to.z;
+
+  // Vectores opuestos: girar 180° alrededor de cualquier eje perpendicular
+  if (dot < -1 + 1e-6) {
+    const axis = Math.abs(from.x) > Math.abs(from.z)
+      ? { x: -from.y, y: from.x, z: 0 }
+      : { x: 0, y: -from.z, z: from.y };
+    return normalizeQuaternion({ ...axis, w: 0 });
+  }
+
+  return normalizeQuaternion({
+    x: from.y * to.z - from.z * to.y,
+    y: from.z * to.x - from.x * to.z,
+    z: from.x * to.y - from.y * to.x,
+    w: 1 + dot
+  });
+}
+
+/**
+ * Producto a * b (aplica primero b y después a)
+ */
+export function multiplyQuaternions(a: Quaternion, b: Quaternion): Quaternion {
+  return {
+    x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+    y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+    z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w,
+    w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z
+  };
+}
+
+export function normalizeQuaternion(q: Quaternion): Quaternion {
+  const length = Math.hypot(q.x, q.y, q.z, q.w);
+  if (length === 0) return { x: 0, y: 0, z: 0, w: 1 };
+  return { x: q.x / length, y: q.y / length, z: q.z / length, w: q.w / length };
+}
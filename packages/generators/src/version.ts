@@ -0,0 +1 @@
+export const GENERATORS_VERSION = '0.7.0';
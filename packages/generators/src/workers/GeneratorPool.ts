@@ -0,0 +1,263 @@
+import { WorldGenerator } from '../WorldGenerator.js';
+import { ConfigDiff } from '../config/diff.js';
+import {
+  ChunkData,
+  ChunkRequestOptions,
+  ChunkSource,
+  GeneratorConfig,
+  GeneratorConfigOverrides
+} from '../types.js';
+import { ChunkWorker, PoolResponse } from './protocol.js';
+
+type ChunkCallbacks = {
+  onProgress?: (progress: number, stage?: string) => void;
+  onComplete?: (data: ChunkData) => void;
+  onError?: (error: Error) => void;
+};
+
+interface PoolJob {
+  id: number;
+  coord: { x: number; z: number };
+  lod: number;
+  callbacks?: ChunkCallbacks;
+  resolve: (chunk: ChunkData) => void;
+  reject: (error: Error) => void;
+  cleanup?: () => void;
+}
+
+interface PoolWorker {
+  worker: ChunkWorker;
+  job: PoolJob | null;
+}
+
+export interface GeneratorPoolOptions {
+  createWorker: () => ChunkWorker;
+  workerCount?: number;
+}
+
+/**
+ * Pool de workers para generar chunks fuera del hilo principal
+ *
+ * Implementa la misma interfaz que WorldGenerator (ChunkSource), de modo que
+ * puede sustituirlo en ChunkStreamer. Las peticiones en cola pueden cancelarse
+ * con un AbortSignal; las que ya están en un worker se descartan al terminar.
+ * Si un worker falla, su petición se rechaza y se sustituye por uno nuevo.
+ */
+export class GeneratorPool implements ChunkSource {
+  private config: GeneratorConfig;
+  private createWorker: () => ChunkWorker;
+  private configVersion = 0;
+  private workers: PoolWorker[] = [];
+  private queue: PoolJob[] = [];
+  private jobs = new Map<number, PoolJob>();
+  private nextJobId = 0;
+
+  constructor(config: GeneratorConfigOverrides, options: GeneratorPoolOptions) {
+    // Resolver valores por defecto una sola vez para que todos los workers
+    // usen exactamente la misma configuración (incluida la semilla)
+    this.config = new WorldGenerator(config).getConfig();
+    this.createWorker = options.createWorker;
+
+    const defaultCount = typeof navigator !== 'undefined' && navigator.hardwareConcurrency
+      ? Math.max(1, navigator.hardwareConcurrency - 1)
+      : 2;
+    const workerCount = options.workerCount ?? defaultCount;
+
+    for (let i = 0; i < workerCount; i++) {
+      this.workers.push(this.spawnWorker());
+    }
+  }
+
+  /**
+   * Genera un chunk en el primer worker libre
+   * options.signal cancela la petición (ver GeneratorPool)
+   */
+  generateChunk(
+    chunkCoord: { x: number; z: number },
+    callbacks?: ChunkCallbacks,
+    options: ChunkRequestOptions & { signal?: AbortSignal } = {}
+  ): Promise<ChunkData> {
+    const { signal } = options;
+    return new Promise<ChunkData>((resolve, reject) => {
+      const job: PoolJob = {
+        id: this.nextJobId++,
+        coord: chunkCoord,
+        lod: options.lod ?? 0,
+        callbacks,
+        resolve,
+        reject
+      };
+
+      if (signal) {
+        if (signal.aborted) {
+          this.failJob(job, GeneratorPool.createAbortError(chunkCoord));
+          return;
+        }
+
+        const onAbort = () => this.cancelJob(job);
+        signal.addEventListener('abort', onAbort, { once: true });
+        job.cleanup = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.jobs.set(job.id, job);
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Genera múltiples chunks en espiral, repartidos entre los workers
+   */
+  generateChunksSpiral(
+    centerChunk: { x: number; z: number },
+    radius: number
+  ): Promise<ChunkData[]> {
+    const coords = WorldGenerator.getSpiralCoords(centerChunk, radius);
+    return Promise.all(coords.map(coord => this.generateChunk(coord)));
+  }
+
+  /**
+   * Cancela todas las peticiones pendientes
+   */
+  cancelAll(): void {
+    for (const job of [...this.jobs.values()]) {
+      this.cancelJob(job);
+    }
+  }
+
+  /**
+   * Actualiza la configuración; los workers la reciben con la siguiente petición
+   */
+  updateConfig(config: GeneratorConfigOverrides): ConfigDiff {
+    const generator = new WorldGenerator(this.config);
+    const diff = generator.updateConfig(config);
+    this.config = generator.getConfig();
+    this.configVersion++;
+    return diff;
+  }
+
+  getConfig(): GeneratorConfig {
+    return { ...this.config };
+  }
+
+  getStats(): { workers: number; busy: number; queued: number } {
+    return {
+      workers: this.workers.length,
+      busy: this.workers.filter(w => w.job !== null).length,
+      queued: this.queue.length
+    };
+  }
+
+  /**
+   * Termina todos los workers y rechaza las peticiones pendientes
+   */
+  destroy(): void {
+    this.cancelAll();
+    const workers = this.workers;
+    this.workers = [];
+    workers.forEach(w => w.worker.terminate());
+  }
+
+  private spawnWorker(): PoolWorker {
+    const poolWorker: PoolWorker = { worker: this.createWorker(), job: null };
+    poolWorker.worker.onMessage(message => this.handleMessage(poolWorker, message));
+    poolWorker.worker.onCrash?.(error => this.handleCrash(poolWorker, error));
+    return poolWorker;
+  }
+
+  private dispatch(): void {
+    for (const poolWorker of this.workers) {
+      if (this.queue.length === 0) return;
+      if (poolWorker.job) continue;
+
+      const job = this.queue.shift()!;
+      poolWorker.job = job;
+
+      poolWorker.worker.postMessage({
+        type: 'generate',
+        id: job.id,
+        coord: job.coord,
+        lod: job.lod,
+        config: this.config,
+        configVersion: this.configVersion
+      });
+    }
+  }
+
+  private handleMessage(poolWorker: PoolWorker, message: PoolResponse): void {
+    const job = this.jobs.get(message.id);
+
+    if (message.type === 'progress') {
+      job?.callbacks?.onProgress?.(message.progress, message.stage);
+      return;
+    }
+
+    // El worker queda libre aunque el trabajo se haya cancelado
+    if (poolWorker.job?.id === message.id) {
+      poolWorker.job = null;
+    }
+
+    if (job) {
+      this.jobs.delete(job.id);
+      job.cleanup?.();
+
+      if (message.type === 'complete') {
+        job.callbacks?.onComplete?.(message.chunk);
+        job.resolve(message.chunk);
+      } else {
+        this.failJob(job, new Error(message.message));
+      }
+    }
+
+    this.dispatch();
+  }
+
+  /**
+   * Rechaza la petición del worker caído y lo sustituye por uno nuevo
+   */
+  private handleCrash(poolWorker: PoolWorker, error: Error): void {
+    const index = this.workers.indexOf(poolWorker);
+    // Ya sustituido (aviso repetido) o terminado en destroy()
+    if (index === -1) return;
+
+    this.workers[index] = this.spawnWorker();
+    poolWorker.worker.terminate();
+
+    const job = poolWorker.job;
+    if (job && this.jobs.has(job.id)) {
+      this.jobs.delete(job.id);
+      job.cleanup?.();
+      this.failJob(job, new Error(
+        `Worker crashed while generating chunk (${job.coord.x}, ${job.coord.z}): ${error.message}`
+      ));
+    }
+
+    this.dispatch();
+  }
+
+  private cancelJob(job: PoolJob): void {
+    if (!this.jobs.has(job.id)) return;
+
+    this.jobs.delete(job.id);
+    job.cleanup?.();
+
+    const queueIndex = this.queue.indexOf(job);
+    if (queueIndex !== -1) {
+      this.queue.splice(queueIndex, 1);
+    }
+    // Si ya está en un worker, su resultado se ignorará en handleMessage
+
+    this.failJob(job, GeneratorPool.createAbortError(job.coord));
+  }
+
+  private failJob(job: PoolJob, error: Error): void {
+    job.callbacks?.onError?.(error);
+    job.reject(error);
+  }
+
+  private static createAbortError(coord: { x: number; z: number }): Error {
+    const error = new Error(`Chunk request (${coord.x}, ${coord.z}) was cancelled`);
+    error.name = 'AbortError';
+    return error;
+  }
+}
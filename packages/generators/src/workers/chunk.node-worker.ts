@@ -0,0 +1,16 @@
+// Punto de entrada para worker_threads de Node
+import { parentPort } from 'worker_threads';
+import { createChunkWorkerHandler, PoolRequest } from './protocol.js';
+
+if (!parentPort) {
+  throw new Error('chunk.node-worker must be started as a worker thread');
+}
+
+const port = parentPort;
+const handleRequest = createChunkWorkerHandler((message, transfer) =>
+  port.postMessage(message, transfer)
+);
+
+port.on('message', (request: PoolRequest) => {
+  handleRequest(request);
+});
@@ -0,0 +1,15 @@
+// Punto de entrada para Web Workers del navegador
+import { createChunkWorkerHandler, PoolRequest, PoolResponse } from './protocol.js';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<PoolRequest>) => void) | null;
+  postMessage(message: PoolResponse, transfer?: Transferable[]): void;
+};
+
+const handleRequest = createChunkWorkerHandler((message, transfer) =>
+  scope.postMessage(message, transfer ?? [])
+);
+
+scope.onmessage = event => {
+  handleRequest(event.data);
+};
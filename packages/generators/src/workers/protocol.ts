@@ -0,0 +1,142 @@
+import { WorldGenerator } from '../WorldGenerator.js';
+import { ChunkData, GeneratorConfig } from '../types.js';
+
+// Mensajes entre GeneratorPool (hilo principal) y los workers de generación
+
+export type PoolRequest = {
+  type: 'generate';
+  id: number;
+  coord: { x: number; z: number };
+  lod: number;
+  config: GeneratorConfig;
+  configVersion: number;
+};
+
+export type PoolResponse =
+  | { type: 'progress'; id: number; progress: number; stage?: string }
+  | { type: 'complete'; id: number; chunk: ChunkData }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * Interfaz mínima común a Web Workers y worker_threads
+ */
+export interface ChunkWorker {
+  postMessage(message: PoolRequest): void;
+  onMessage(handler: (message: PoolResponse) => void): void;
+  // El worker falló o terminó por su cuenta y ya no responderá
+  onCrash?(handler: (error: Error) => void): void;
+  terminate(): void;
+}
+
+/**
+ * Forma estructural de un Worker de worker_threads (evita depender de @types/node)
+ */
+export interface NodeWorkerLike {
+  postMessage(message: any, transferList?: any[]): void;
+  on(event: 'message', listener: (message: any) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  on(event: 'exit', listener: (exitCode: number) => void): void;
+  terminate(): unknown;
+}
+
+/**
+ * Adapta un Web Worker del navegador
+ * Uso: fromWebWorker(new Worker(new URL('./chunk.worker.js', import.meta.url), { type: 'module' }))
+ */
+export function fromWebWorker(worker: Worker): ChunkWorker {
+  return {
+    postMessage: message => worker.postMessage(message),
+    onMessage: handler => {
+      worker.onmessage = (event: MessageEvent<PoolResponse>) => handler(event.data);
+    },
+    onCrash: handler => {
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        handler(new Error(event.message || 'Worker error'));
+      };
+    },
+    terminate: () => worker.terminate()
+  };
+}
+
+/**
+ * Adapta un Worker de Node (worker_threads)
+ * Uso: fromNodeWorker(new Worker(new URL('./chunk.node-worker.js', import.meta.url)))
+ */
+export function fromNodeWorker(worker: NodeWorkerLike): ChunkWorker {
+  return {
+    postMessage: message => worker.postMessage(message),
+    onMessage: handler => worker.on('message', handler),
+    onCrash: handler => {
+      // Tras 'error' también llega 'exit': el pool ignora el segundo aviso
+      worker.on('error', handler);
+      worker.on('exit', exitCode => handler(new Error(`Worker exited with code ${exitCode}`)));
+    },
+    terminate: () => {
+      worker.terminate();
+    }
+  };
+}
+
+/**
+ * Buffers transferibles de un chunk (transferencia sin copia)
+ */
+export function getChunkTransferables(chunk: ChunkData): ArrayBuffer[] {
+  const buffers = [
+    chunk.heightmap.buffer,
+    chunk.biomemap.buffer,
+    chunk.temperature.buffer,
+    chunk.moisture.buffer,
+    ...(chunk.watermap ? [chunk.watermap.buffer] : []),
+    ...(chunk.roadmask ? [chunk.roadmask.buffer] : []),
+    ...(chunk.voxels ? [chunk.voxels.density.buffer] : []),
+    ...(chunk.densityMesh ? [chunk.densityMesh.vertices.buffer, chunk.densityMesh.indices.buffer] : []),
+    ...(chunk.biomeWeights
+      ? [chunk.biomeWeights.ids.buffer, chunk.biomeWeights.weights.buffer]
+      : [])
+  ] as ArrayBuffer[];
+
+  // Un mismo buffer no puede aparecer dos veces en la lista de transferencia
+  return [...new Set(buffers)];
+}
+
+/**
+ * Lógica del lado del worker, independiente del entorno
+ * Ejecuta el mismo WorldGenerator que el hilo principal, por lo que la
+ * salida es idéntica a la generación en un solo hilo para la misma semilla
+ *
+ * @param configure registra etapas propias en cada generador del worker
+ * (deben coincidir con las del hilo principal)
+ */
+export function createChunkWorkerHandler(
+  post: (message: PoolResponse, transfer?: ArrayBuffer[]) => void,
+  configure?: (generator: WorldGenerator) => void
+): (request: PoolRequest) => Promise<void> {
+  let generator: WorldGenerator | null = null;
+  let generatorVersion = -1;
+
+  return async (request: PoolRequest) => {
+    if (request.type !== 'generate') return;
+
+    const { id, coord, lod, config, configVersion } = request;
+
+    if (!generator || generatorVersion !== configVersion) {
+      generator = new WorldGenerator(config);
+      configure?.(generator);
+      generatorVersion = configVersion;
+    }
+
+    try {
+      const chunk = await generator.generateChunk(coord, {
+        onProgress: (progress, stage) => post({ type: 'progress', id, progress, stage })
+      }, { lod });
+      post({ type: 'complete', id, chunk }, getChunkTransferables(chunk));
+    } catch (error) {
+      post({
+        type: 'error',
+        id,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+}
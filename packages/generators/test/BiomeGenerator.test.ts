@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { WorldGenerator } from '../src/WorldGenerator.js';
+import { BiomeWeights } from '../src/types.js';
+
+function cellWeights(biomeWeights: BiomeWeights, cell: number): Array<[number, number]> {
+  const base = cell * biomeWeights.k;
+  return Array.from({ length: biomeWeights.k }, (_, j) => [biomeWeights.ids[base + j], biomeWeights.weights[base + j]]);
+}
+
+describe('BiomeGenerator: pesos de mezcla', () => {
+  it('solo los calcula con biomeBlendParams', async () => {
+    const chunk = await new WorldGenerator({ seed: 1, chunkSize: 16 }).generateChunk({ x: 0, z: 0 });
+    expect(chunk.biomeWeights).toBeUndefined();
+  });
+
+  for (const topK of [1, 2, 4]) {
+    it(`topK ${topK}: pesos ordenados de mayor a menor que suman 1 en cada celda`, async () => {
+      const generator = new WorldGenerator({ seed: 7, chunkSize: 64, biomeBlendParams: { blendWidth: 0.3, topK } });
+      const { biomeWeights } = await generator.generateChunk({ x: 0, z: 0 });
+      const cells = 64 * 64;
+
+      expect(biomeWeights?.k).toBe(topK);
+      expect(biomeWeights?.ids).toHaveLength(cells * topK);
+      expect(biomeWeights?.weights).toHaveLength(cells * topK);
+
+      let blended = 0;
+      for (let cell = 0; cell < cells; cell++) {
+        const weights = cellWeights(biomeWeights!, cell);
+        const sum = weights.reduce((acc, [, weight]) => acc + weight, 0);
+        expect(sum).toBeCloseTo(1, 5);
+        for (let j = 1; j < topK; j++) {
+          expect(weights[j][1]).toBeLessThanOrEqual(weights[j - 1][1]);
+        }
+
+        // Cada bioma aparece una sola vez entre los que tienen peso
+        const ids = weights.filter(([, weight]) => weight > 0).map(([id]) => id);
+        expect(new Set(ids).size).toBe(ids.length);
+        for (const id of ids) expect(id).toBeLessThanOrEqual(8);
+        if (ids.length > 1) blended++;
+      }
+
+      // Con k > 1 y una transición ancha alguna celda mezcla varios biomas
+      if (topK > 1) expect(blended).toBeGreaterThan(0);
+      else expect(blended).toBe(0);
+    });
+  }
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { WorldGenerator } from '../src/WorldGenerator.js';
+import { decodeChunk, decodeChunkHeader, encodeChunk } from '../src/serialization/ChunkCodec.js';
+
+describe('ChunkCodec', () => {
+  it('recupera un chunk completo sin pérdidas', async () => {
+    const generator = new WorldGenerator({
+      seed: 7,
+      chunkSize: 16,
+      waterParams: { riverThreshold: 40 },
+      densityParams: { minY: -8, maxY: 8, frequency: 0.05, octaves: 2, strength: 0.5 },
+      biomeBlendParams: { blendWidth: 0.1 }
+    });
+    const chunk = await generator.generateChunk({ x: -1, z: 2 });
+
+    const decoded = decodeChunk(encodeChunk(chunk));
+
+    expect(decoded).toEqual(chunk);
+    expect(decoded.voxels).toBeDefined();
+    expect(decoded.densityMesh).toBeDefined();
+  });
+
+  it('cuantiza el heightmap con un error acotado y deja el resto intacto', async () => {
+    const chunk = await new WorldGenerator({ seed: 7, chunkSize: 16 }).generateChunk({ x: 0, z: 0 });
+
+    const full = encodeChunk(chunk);
+    const quantized = encodeChunk(chunk, { quantizeHeightmap: true });
+    const decoded = decodeChunk(quantized);
+
+    expect(quantized.length).toBeLessThan(full.length);
+    expect(decodeChunkHeader(quantized).quantizedHeightmap).toBe(true);
+    const range = chunk.metadata.maxHeight - chunk.metadata.minHeight;
+    chunk.heightmap.forEach((h, i) => {
+      expect(Math.abs(decoded.heightmap[i] - h)).toBeLessThanOrEqual(range / 65535);
+    });
+    expect(decoded.biomemap).toEqual(chunk.biomemap);
+    expect(decoded.objects).toEqual(chunk.objects);
+  });
+
+  it('guarda chunkSize y lod en la cabecera de los chunks LOD', async () => {
+    const chunk = await new WorldGenerator({ seed: 7, chunkSize: 32 }).generateChunk(
+      { x: 3, z: -1 },
+      undefined,
+      { lod: 2 }
+    );
+    const bytes = encodeChunk(chunk);
+
+    expect(decodeChunkHeader(bytes)).toMatchObject({ chunkSize: 32, lod: 2 });
+    expect(decodeChunk(bytes)).toEqual(chunk);
+  });
+
+  it('guarda las semillas de texto en la cabecera', async () => {
+    const chunk = await new WorldGenerator({ seed: 7, chunkSize: 16 }).generateChunk({ x: 0, z: 0 });
+    const named = { ...chunk, metadata: { ...chunk.metadata, seed: 'mundo-ñ' } };
+
+    expect(decodeChunkHeader(encodeChunk(named)).seed).toBe('mundo-ñ');
+    expect(decodeChunk(encodeChunk(named))).toEqual(named);
+    expect(decodeChunkHeader(encodeChunk(chunk)).seed).toBe(chunk.metadata.seed);
+
+    const invalid = { ...chunk, metadata: { ...chunk.metadata, seed: { value: 1 } } };
+    expect(() => encodeChunk(invalid)).toThrow('Chunk metadata.seed must be a number or a string, got object');
+  });
+
+  it('lee chunks de la versión 3 del formato', async () => {
+    const chunk = await new WorldGenerator({ seed: 7, chunkSize: 16 }).generateChunk({ x: 0, z: 0 });
+    // La v3 solo difiere en que no admite semillas de texto
+    const bytes = encodeChunk(chunk, { configHash: 'abc' });
+    new DataView(bytes.buffer, bytes.byteOffset).setUint16(4, 3, true);
+
+    expect(decodeChunkHeader(bytes)).toMatchObject({ formatVersion: 3, configHash: 'abc', seed: chunk.metadata.seed });
+    expect(decodeChunk(bytes)).toEqual(chunk);
+  });
+
+  it('rechaza datos sin cabecera WLCK', () => {
+    expect(() => decodeChunk(new Uint8Array(16))).toThrow(/WLCK/);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { EventBus } from '@worldlab/events';
+import { WorldGenerator } from '../src/WorldGenerator.js';
+import { ChunkStore } from '../src/storage/ChunkStore.js';
+import { MemoryStorageBackend } from '../src/storage/backends.js';
+import { ChunkEdit, ChunkSource } from '../src/types.js';
+
+// Fuente que cuenta cuántos chunks genera de verdad
+function countingSource(generator: WorldGenerator): ChunkSource & { generated: number } {
+  const source = {
+    generated: 0,
+    generateChunk: (...args: Parameters<ChunkSource['generateChunk']>) => {
+      source.generated++;
+      return generator.generateChunk(...args);
+    },
+    getConfig: () => generator.getConfig()
+  };
+  return source;
+}
+
+describe('ChunkStore', () => {
+  it('reutiliza el base guardado si la config de generación no cambia', async () => {
+    const backend = new MemoryStorageBackend();
+    const generator = new WorldGenerator({ seed: 5, chunkSize: 16 });
+    const source = countingSource(generator);
+
+    const first = await new ChunkStore(source, backend).generateChunk({ x: 0, z: 0 });
+
+    // El color no afecta a los chunks: el base sigue siendo válido
+    const biomes = generator.getConfig().biomes.map(biome => ({ ...biome, color: { r: 0, g: 0, b: 0 } }));
+    generator.updateConfig({ biomes });
+    const second = await new ChunkStore(source, backend).generateChunk({ x: 0, z: 0 });
+
+    expect(source.generated).toBe(1);
+    expect(second.heightmap).toEqual(first.heightmap);
+  });
+
+  it('regenera el base si cambia la config de generación con la misma semilla', async () => {
+    const backend = new MemoryStorageBackend();
+    const generator = new WorldGenerator({ seed: 5, chunkSize: 16 });
+    const source = countingSource(generator);
+
+    const stale = await new ChunkStore(source, backend).generateChunk({ x: 0, z: 0 });
+
+    generator.updateConfig({ heightmapParams: { frequency: 0.03 } });
+    const store = new ChunkStore(source, backend);
+    const fresh = await store.generateChunk({ x: 0, z: 0 });
+    const expected = await generator.generateChunk({ x: 0, z: 0 });
+
+    expect(source.generated).toBe(2);
+    expect(fresh.heightmap).toEqual(expected.heightmap);
+    expect(fresh.heightmap).not.toEqual(stale.heightmap);
+
+    // El base regenerado sustituye al anterior
+    await store.generateChunk({ x: 0, z: 0 });
+    expect(source.generated).toBe(2);
+  });
+
+  it('no pierde ediciones simultáneas en un chunk sin delta cargado', async () => {
+    const backend = new MemoryStorageBackend();
+    const generator = new WorldGenerator({ seed: 5, chunkSize: 16 });
+    const store = new ChunkStore(generator, backend, { persistBase: false });
+
+    await Promise.all([
+      store.appendEdits({ x: 2, z: 3 }, [{ kind: 'height', x: 0, z: 0, value: 1, mode: 'set' }]),
+      store.appendEdits({ x: 2, z: 3 }, [{ kind: 'height', x: 1, z: 0, value: 2, mode: 'set' }]),
+      store.editHeight({ x: 2 * 16 + 2, z: 3 * 16 }, 3)
+    ]);
+
+    expect((await store.getDelta({ x: 2, z: 3 })).edits).toHaveLength(3);
+    const reloaded = new ChunkStore(generator, backend, { persistBase: false });
+    expect((await reloaded.getDelta({ x: 2, z: 3 })).edits).toHaveLength(3);
+  });
+
+  it('guarda todas las entidades creadas en el mismo tick', async () => {
+    const backend = new MemoryStorageBackend();
+    const generator = new WorldGenerator({ seed: 5, chunkSize: 16 });
+    const store = new ChunkStore(generator, backend, { persistBase: false });
+    const eventBus = new EventBus();
+    store.trackSpawnedEntities(eventBus);
+
+    for (let i = 0; i < 3; i++) {
+      eventBus.emit('entity:spawned', { entityId: i, archetype: 'rock', position: { x: i, y: 0, z: 1 } });
+    }
+
+    const delta = await store.getDelta({ x: 0, z: 0 });
+    expect(delta.edits.map(edit => edit.kind)).toEqual(['addObject', 'addObject', 'addObject']);
+    await new Promise(resolve => setTimeout(resolve, 0)); // escrituras pendientes
+    const reloaded = new ChunkStore(generator, backend, { persistBase: false });
+    expect((await reloaded.getDelta({ x: 0, z: 0 })).edits).toHaveLength(3);
+  });
+
+  it('fusiona ediciones de altura y de objetos sin tocar el base', async () => {
+    const chunkSize = 32;
+    const generator = new WorldGenerator({ seed: 5, chunkSize });
+    const base = await generator.generateChunk({ x: 0, z: 0 });
+    const baseHeightmap = new Float32Array(base.heightmap);
+    const removed = base.objects[0];
+    expect(removed).toBeDefined();
+
+    const added = {
+      type: 'rock',
+      position: { x: 3, y: 1, z: 4 },
+      rotation: { x: 0, y: 0, z: 0, w: 1 },
+      scale: { x: 1, y: 1, z: 1 }
+    };
+    const edits: ChunkEdit[] = [
+      { kind: 'height', x: 1, z: 2, value: 50, mode: 'set' },
+      { kind: 'height', x: 1, z: 2, value: 5, mode: 'add' },
+      { kind: 'height', x: chunkSize, z: 0, value: 99, mode: 'set' }, // fuera del chunk: se ignora
+      { kind: 'removeObject', type: removed.type, position: { ...removed.position } },
+      { kind: 'addObject', object: added }
+    ];
+
+    const merged = ChunkStore.applyDelta(base, edits);
+
+    expect(merged.heightmap[2 * chunkSize + 1]).toBe(55);
+    expect(merged.metadata.maxHeight).toBe(Math.max(...merged.heightmap));
+    expect(merged.objects).not.toContainEqual(removed);
+    expect(merged.objects).toContainEqual(added);
+    expect(merged.objects).toHaveLength(base.objects.length);
+    expect(merged.metadata.editCount).toBe(edits.length);
+    expect(merged.metadata.contentHash).not.toBe(base.metadata.contentHash);
+    expect(base.heightmap).toEqual(baseHeightmap);
+
+    // Las ediciones guardadas se aplican al cargar el chunk
+    const store = new ChunkStore(generator, new MemoryStorageBackend());
+    await store.appendEdits({ x: 0, z: 0 }, edits);
+    const loaded = await store.generateChunk({ x: 0, z: 0 });
+    expect(loaded.heightmap).toEqual(merged.heightmap);
+    expect(loaded.objects).toEqual(merged.objects);
+  });
+});
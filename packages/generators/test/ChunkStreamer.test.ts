@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { EventBus } from '@worldlab/events';
+import { ChunkStreamer } from '../src/streaming/ChunkStreamer.js';
+import { getLodGrid } from '../src/utils/grid.js';
+import { ChunkData, ChunkRequestOptions, ChunkSource, GeneratorConfig } from '../src/types.js';
+
+const chunkSize = 16;
+
+// Fuente instantánea que registra cada chunk que genera
+function fakeSource(): ChunkSource & { generated: string[] } {
+  const source = {
+    generated: [] as string[],
+    async generateChunk(
+      coord: { x: number; z: number },
+      _callbacks?: unknown,
+      options?: ChunkRequestOptions
+    ): Promise<ChunkData> {
+      const lod = options?.lod ?? 0;
+      const { size } = getLodGrid(chunkSize, lod);
+      source.generated.push(`${coord.x},${coord.z}@${lod}`);
+      return {
+        coord,
+        heightmap: new Float32Array(size * size),
+        biomemap: new Uint8Array(size * size),
+        temperature: new Float32Array(size * size),
+        moisture: new Float32Array(size * size),
+        objects: [],
+        metadata: { minHeight: 0, maxHeight: 0, generationTime: 0, seed: 1, ...(lod > 0 && { lod }) }
+      };
+    },
+    getConfig: () => ({ chunkSize }) as GeneratorConfig
+  };
+  return source;
+}
+
+// Eventos del streamer como 'generated x,z@lod' / 'unloaded x,z'
+function recordEvents(eventBus: EventBus): string[] {
+  const events: string[] = [];
+  eventBus.on('chunk:generated', ({ chunkCoord, lod }) => {
+    events.push(`generated ${chunkCoord.x},${chunkCoord.z}@${lod ?? 0}`);
+  });
+  eventBus.on('chunk:unloaded', ({ chunkCoord }) => {
+    events.push(`unloaded ${chunkCoord.x},${chunkCoord.z}`);
+  });
+  return events;
+}
+
+// Centro del chunk en coordenadas del mundo
+const centerOf = (x: number, z: number) => ({ x: (x + 0.5) * chunkSize, z: (z + 0.5) * chunkSize });
+
+describe('ChunkStreamer', () => {
+  it('carga loadRadius alrededor del foco, el chunk del foco primero', async () => {
+    const source = fakeSource();
+    const eventBus = new EventBus();
+    const events = recordEvents(eventBus);
+    const streamer = new ChunkStreamer(source, { loadRadius: 1, unloadRadius: 2 }, eventBus);
+
+    streamer.setFocus(centerOf(0, 0));
+    await streamer.update();
+
+    expect(streamer.getStats().loaded).toBe(9);
+    expect(events).toHaveLength(9);
+    expect(events[0]).toBe('generated 0,0@0');
+    expect(streamer.isLoaded({ x: 1, z: -1 })).toBe(true);
+    expect(streamer.isLoaded({ x: 2, z: 0 })).toBe(false);
+  });
+
+  it('descarga solo más allá de unloadRadius y reutiliza la caché al volver', async () => {
+    const source = fakeSource();
+    const eventBus = new EventBus();
+    const events = recordEvents(eventBus);
+    const streamer = new ChunkStreamer(source, { loadRadius: 1, unloadRadius: 2 }, eventBus);
+
+    streamer.setFocus(centerOf(0, 0));
+    await streamer.update();
+    events.length = 0;
+
+    streamer.setFocus(centerOf(2, 0));
+    await streamer.update();
+
+    // x = 0 queda a distancia 2: sigue cargada; x = -1 se descarga
+    expect(events.filter(event => event.startsWith('unloaded')).sort())
+      .toEqual(['unloaded -1,-1', 'unloaded -1,0', 'unloaded -1,1']);
+    expect(streamer.isLoaded({ x: 0, z: 0 })).toBe(true);
+    expect(streamer.getStats()).toMatchObject({ loaded: 12, cached: 3 });
+    const generated = source.generated.length;
+
+    streamer.setFocus(centerOf(0, 0));
+    await streamer.update();
+
+    expect(source.generated).toHaveLength(generated);
+    expect(streamer.isLoaded({ x: -1, z: 0 })).toBe(true);
+    expect(streamer.isLoaded({ x: 3, z: 0 })).toBe(false);
+  });
+
+  it('regenera al volver si la caché desalojó el chunk', async () => {
+    const source = fakeSource();
+    const streamer = new ChunkStreamer(source, { loadRadius: 0, unloadRadius: 0, cacheBudgetBytes: 0 });
+
+    streamer.setFocus(centerOf(0, 0));
+    await streamer.update();
+    streamer.setFocus(centerOf(1, 0));
+    await streamer.update();
+    streamer.setFocus(centerOf(0, 0));
+    await streamer.update();
+
+    expect(source.generated).toEqual(['0,0@0', '1,0@0', '0,0@0']);
+    expect(streamer.getStats()).toEqual({ loaded: 1, cached: 0, cacheBytes: 0 });
+  });
+
+  it('al cambiar de nivel de detalle emite unloaded antes del nuevo generated', async () => {
+    const source = fakeSource();
+    const eventBus = new EventBus();
+    const events = recordEvents(eventBus);
+    const streamer = new ChunkStreamer(source, { loadRadius: 1, unloadRadius: 1, lodRadii: [0] }, eventBus);
+
+    streamer.setFocus(centerOf(0, 0));
+    await streamer.update();
+    expect(events).toContain('generated 1,0@1');
+    events.length = 0;
+
+    streamer.setFocus(centerOf(1, 0));
+    await streamer.update();
+
+    const forChunk = (coord: string) =>
+      events.filter(event => event === `unloaded ${coord}` || event.startsWith(`generated ${coord}@`));
+    expect(forChunk('1,0')).toEqual(['unloaded 1,0', 'generated 1,0@0']);
+    expect(forChunk('0,0')).toEqual(['unloaded 0,0', 'generated 0,0@1']);
+
+    // clear() descarga todo lo cargado
+    events.length = 0;
+    const loaded = streamer.getStats().loaded;
+    streamer.clear();
+    expect(events).toHaveLength(loaded);
+    expect(streamer.getStats()).toEqual({ loaded: 0, cached: 0, cacheBytes: 0 });
+  });
+
+  it('rechaza radios incoherentes', () => {
+    const source = fakeSource();
+    expect(() => new ChunkStreamer(source, { loadRadius: 3, unloadRadius: 2 })).toThrow('unloadRadius');
+    expect(() => new ChunkStreamer(source, { lodRadii: [2, 1] })).toThrow('ascending');
+  });
+});
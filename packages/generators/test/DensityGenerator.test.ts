@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { WorldGenerator } from '../src/WorldGenerator.js';
+import { GeneratorConfigOverrides, VoxelChunk } from '../src/types.js';
+
+const config: GeneratorConfigOverrides = {
+  seed: 1234,
+  chunkSize: 16,
+  densityParams: {
+    minY: -12,
+    maxY: 12,
+    frequency: 0.08,
+    octaves: 2,
+    strength: 0.6,
+    caves: { frequency: 0.1, threshold: 0.15 }
+  }
+};
+
+function voxel(voxels: VoxelChunk, x: number, y: number, z: number): number {
+  const { size, density } = voxels;
+  return density[(y * size.z + z) * size.x + x];
+}
+
+describe('DensityGenerator', () => {
+  it('genera los mismos vóxeles para la misma semilla', async () => {
+    const a = await new WorldGenerator(config).generateChunk({ x: 2, z: -3 });
+    const b = await new WorldGenerator(config).generateChunk({ x: 2, z: -3 });
+
+    expect(a.voxels!.density).toEqual(b.voxels!.density);
+    expect(a.densityMesh).toEqual(b.densityMesh);
+  });
+
+  it('comparte exactamente los vóxeles del borde entre chunks vecinos', async () => {
+    const generator = new WorldGenerator(config);
+    const origin = (await generator.generateChunk({ x: 0, z: 0 })).voxels!;
+    const east = (await generator.generateChunk({ x: 1, z: 0 })).voxels!;
+    const south = (await generator.generateChunk({ x: 0, z: 1 })).voxels!;
+    const { size } = origin;
+
+    for (let y = 0; y < size.y; y++) {
+      for (let i = 0; i < size.z; i++) {
+        expect(voxel(east, 0, y, i)).toBe(voxel(origin, size.x - 1, y, i));
+        expect(voxel(south, i, y, 0)).toBe(voxel(origin, i, y, size.z - 1));
+      }
+    }
+  });
+});
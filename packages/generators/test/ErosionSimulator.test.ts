@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { WorldGenerator } from '../src/WorldGenerator.js';
+import { ErosionSimulator } from '../src/generators/ErosionSimulator.js';
+import { ErosionParams } from '../src/types.js';
+
+// Gotas por celda del mundo: hydraulicIterations es por chunk
+const dropletsPerCell = 1.5;
+
+function erosionParams(chunkSize: number): ErosionParams {
+  return {
+    hydraulicIterations: Math.round(dropletsPerCell * chunkSize * chunkSize),
+    thermalIterations: 4,
+    regionSize: 16
+  };
+}
+
+/**
+ * Heightmap con borde que deja la etapa de erosión en cada chunk generado
+ */
+function captureErodedHeightmaps(generator: WorldGenerator) {
+  const captured = new Map<string, { heightmap: Float32Array; padding: number }>();
+  generator.addStage({
+    name: 'capture',
+    inputs: ['paddedHeightmap'],
+    outputs: [],
+    seedScope: 'global',
+    run(context) {
+      captured.set(`${context.chunkCoord.x},${context.chunkCoord.z}`, {
+        heightmap: context.intermediate.paddedHeightmap as Float32Array,
+        padding: context.intermediate.padding as number
+      });
+    }
+  }, { after: 'erosion' });
+  return captured;
+}
+
+describe('ErosionSimulator', () => {
+  it('deja sin erosionar solo el borde de las ventanas', () => {
+    expect(ErosionSimulator.getPadding({ hydraulicIterations: 100, thermalIterations: 5, regionSize: 20 })).toBe(40);
+  });
+
+  it('la altura erosionada solo depende de la posición en el mundo', async () => {
+    const large = await new WorldGenerator({ seed: 11, chunkSize: 32, erosionParams: erosionParams(32) })
+      .generateChunk({ x: -1, z: 0 });
+    const plain = await new WorldGenerator({ seed: 11, chunkSize: 32 }).generateChunk({ x: -1, z: 0 });
+    expect(large.heightmap).not.toEqual(plain.heightmap);
+
+    const small = new WorldGenerator({ seed: 11, chunkSize: 16, erosionParams: erosionParams(16) });
+    for (const [dx, dz] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+      const chunk = await small.generateChunk({ x: -2 + dx, z: dz });
+      for (let z = 0; z < 16; z++) {
+        const row = large.heightmap.subarray((dz * 16 + z) * 32 + dx * 16, (dz * 16 + z) * 32 + dx * 16 + 16);
+        expect(chunk.heightmap.subarray(z * 16, z * 16 + 16)).toEqual(row);
+      }
+    }
+  }, 30_000);
+
+  it('los chunks vecinos coinciden exactamente en la zona erosionada que comparten', async () => {
+    const chunkSize = 32;
+    const params = erosionParams(chunkSize);
+    const generator = new WorldGenerator({ seed: 11, chunkSize, erosionParams: params });
+    const captured = captureErodedHeightmaps(generator);
+
+    // Orden inverso al natural para descartar dependencias del orden
+    await generator.generateChunk({ x: 1, z: 0 });
+    await generator.generateChunk({ x: 0, z: 0 });
+
+    const west = captured.get('0,0')!;
+    const east = captured.get('1,0')!;
+    const size = chunkSize + west.padding * 2;
+    // Celdas erosionadas: todo salvo el borde de las ventanas
+    const margin = ErosionSimulator.getPadding(params);
+    const eroded = size - margin * 2;
+    expect(eroded).toBeGreaterThan(chunkSize);
+
+    let compared = 0;
+    for (let z = margin; z < size - margin; z++) {
+      // Columnas del oeste que el este también erosiona (desplazadas un chunk)
+      for (let x = margin + chunkSize; x < size - margin; x++) {
+        expect(east.heightmap[z * size + x - chunkSize]).toBe(west.heightmap[z * size + x]);
+        compared++;
+      }
+    }
+    expect(compared).toBe(eroded * (eroded - chunkSize));
+  }, 30_000);
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { WorldGenerator } from '../src/WorldGenerator.js';
+import { GeneratorPool } from '../src/workers/GeneratorPool.js';
+import { ChunkWorker, createChunkWorkerHandler, PoolRequest, PoolResponse } from '../src/workers/protocol.js';
+import { hashChunk } from '../src/serialization/ChunkHash.js';
+import { ChunkData, GeneratorConfigOverrides } from '../src/types.js';
+
+// Worker falso: guarda las peticiones y deja simular respuestas y fallos
+class FakeWorker implements ChunkWorker {
+  requests: PoolRequest[] = [];
+  terminated = false;
+  private messageHandler?: (message: PoolResponse) => void;
+  private crashHandler?: (error: Error) => void;
+
+  postMessage(message: PoolRequest): void {
+    this.requests.push(message);
+  }
+
+  onMessage(handler: (message: PoolResponse) => void): void {
+    this.messageHandler = handler;
+  }
+
+  onCrash(handler: (error: Error) => void): void {
+    this.crashHandler = handler;
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  complete(request: PoolRequest): void {
+    const chunk = { coord: request.coord } as ChunkData;
+    this.messageHandler?.({ type: 'complete', id: request.id, chunk });
+  }
+
+  crash(message: string): void {
+    this.crashHandler?.(new Error(message));
+  }
+}
+
+// Worker en el mismo proceso con el handler real; los mensajes se clonan
+// (y los buffers se transfieren) como en postMessage
+class InProcessWorker implements ChunkWorker {
+  private messageHandler?: (message: PoolResponse) => void;
+  private handleRequest = createChunkWorkerHandler((message, transfer) => {
+    const cloned = structuredClone(message, { transfer });
+    queueMicrotask(() => this.messageHandler?.(cloned));
+  });
+
+  postMessage(message: PoolRequest): void {
+    this.handleRequest(structuredClone(message));
+  }
+
+  onMessage(handler: (message: PoolResponse) => void): void {
+    this.messageHandler = handler;
+  }
+
+  terminate(): void {}
+}
+
+function createPool(): { pool: GeneratorPool; workers: FakeWorker[] } {
+  const workers: FakeWorker[] = [];
+  const pool = new GeneratorPool({ seed: 1, chunkSize: 16 }, {
+    workerCount: 1,
+    createWorker: () => {
+      const worker = new FakeWorker();
+      workers.push(worker);
+      return worker;
+    }
+  });
+  return { pool, workers };
+}
+
+describe('GeneratorPool', () => {
+  it('rechaza la petición de un worker caído y sigue con la cola en uno nuevo', async () => {
+    const { pool, workers } = createPool();
+
+    const crashed = pool.generateChunk({ x: 0, z: 0 });
+    const queued = pool.generateChunk({ x: 1, z: 0 });
+    expect(workers[0].requests).toHaveLength(1);
+
+    workers[0].crash('out of memory');
+
+    await expect(crashed).rejects.toThrow('Worker crashed while generating chunk (0, 0): out of memory');
+    expect(workers[0].terminated).toBe(true);
+    expect(workers).toHaveLength(2);
+    expect(pool.getStats()).toEqual({ workers: 1, busy: 1, queued: 0 });
+
+    workers[1].complete(workers[1].requests[0]);
+    await expect(queued).resolves.toMatchObject({ coord: { x: 1, z: 0 } });
+  });
+
+  it('genera en los workers los mismos chunks que WorldGenerator', async () => {
+    const config: GeneratorConfigOverrides = {
+      seed: 'pool',
+      chunkSize: 16,
+      waterParams: { riverThreshold: 12 },
+      biomeBlendParams: { blendWidth: 0.1 }
+    };
+    const pool = new GeneratorPool(config, { workerCount: 2, createWorker: () => new InProcessWorker() });
+    const generator = new WorldGenerator(config);
+    const requests = [
+      { coord: { x: 0, z: 0 }, lod: 0 },
+      { coord: { x: -3, z: 2 }, lod: 0 },
+      { coord: { x: 1, z: -1 }, lod: 2 }
+    ];
+
+    const pooled = await Promise.all(requests.map(({ coord, lod }) => pool.generateChunk(coord, undefined, { lod })));
+    for (let i = 0; i < requests.length; i++) {
+      const { coord, lod } = requests[i];
+      const direct = await generator.generateChunk(coord, undefined, { lod });
+      expect(hashChunk(pooled[i])).toBe(hashChunk(direct));
+      expect(pooled[i].metadata.contentHash).toBe(direct.metadata.contentHash);
+    }
+
+    // Los workers rehacen su generador con la config nueva
+    pool.updateConfig({ heightmapParams: { frequency: 0.03 } });
+    generator.updateConfig({ heightmapParams: { frequency: 0.03 } });
+    const updated = await pool.generateChunk({ x: 0, z: 0 });
+    expect(hashChunk(updated)).toBe(hashChunk(await generator.generateChunk({ x: 0, z: 0 })));
+    expect(hashChunk(updated)).not.toBe(hashChunk(pooled[0]));
+    pool.destroy();
+  }, 30_000);
+
+  it('ignora avisos repetidos del mismo worker y los de destroy()', () => {
+    const { pool, workers } = createPool();
+
+    workers[0].crash('error');
+    workers[0].crash('exited with code 1');
+    expect(workers).toHaveLength(2);
+
+    pool.destroy();
+    workers[1].crash('exited with code 1');
+    expect(workers).toHaveLength(2);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { RNG } from '@worldlab/core';
+import { WorldGenerator } from '../src/WorldGenerator.js';
+import { HeightmapGenerator } from '../src/generators/HeightmapGenerator.js';
+import { GeneratorConfig, GeneratorConfigOverrides } from '../src/types.js';
+
+type HeightmapParams = GeneratorConfig['heightmapParams'];
+
+const base: HeightmapParams = { frequency: 0.02, octaves: 4, persistence: 0.5, lacunarity: 2, amplitude: 1 };
+
+// Variantes del ruido de altura que tienen que cumplir lo mismo que fbm
+const variants: Record<string, GeneratorConfigOverrides['heightmapParams']> = {
+  ridged: { noiseMode: 'ridged', ridgeOffset: 1, ridgeGain: 2 },
+  billow: { noiseMode: 'billow' },
+  domainWarp: { domainWarp: { frequency: 0.01, strength: 30 } },
+  continentalness: { continentalness: { frequency: 0.005, threshold: 0, coastWidth: 0.1, oceanDepth: 0.6 } }
+};
+
+function sampleArea(generator: HeightmapGenerator, params: HeightmapParams): number[] {
+  const heights: number[] = [];
+  for (let z = -20; z < 20; z += 3) {
+    for (let x = -20; x < 20; x += 3) {
+      heights.push(generator.sampleHeight(x, z, params));
+    }
+  }
+  return heights;
+}
+
+function createGenerator(seed: number): HeightmapGenerator {
+  return new HeightmapGenerator(new RNG(seed).toFunction());
+}
+
+describe('HeightmapGenerator', () => {
+  for (const [name, overrides] of Object.entries(variants)) {
+    it(`${name}: determinista, distinto de fbm y sin costuras entre chunks`, async () => {
+      const params = { ...base, ...overrides } as HeightmapParams;
+      const heights = sampleArea(createGenerator(1), params);
+
+      expect(sampleArea(createGenerator(1), params)).toEqual(heights);
+      expect(sampleArea(createGenerator(2), params)).not.toEqual(heights);
+      expect(sampleArea(createGenerator(1), base)).not.toEqual(heights);
+      for (const height of heights) {
+        expect(Math.abs(height)).toBeLessThanOrEqual(1);
+      }
+
+      // La altura solo depende de la posición: un chunk de 32 son cuatro de 16
+      const config = { seed: 4, heightmapParams: { ...base, ...overrides } };
+      const large = await new WorldGenerator({ ...config, chunkSize: 32 }).generateChunk({ x: -1, z: 0 });
+      const small = new WorldGenerator({ ...config, chunkSize: 16 });
+      for (const [dx, dz] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+        const { heightmap } = await small.generateChunk({ x: -2 + dx, z: dz });
+        for (let z = 0; z < 16; z++) {
+          const start = (dz * 16 + z) * 32 + dx * 16;
+          expect(heightmap.subarray(z * 16, z * 16 + 16)).toEqual(large.heightmap.subarray(start, start + 16));
+        }
+      }
+    });
+  }
+
+  it('un domain warp de fuerza 0 no cambia nada', () => {
+    const generator = createGenerator(1);
+    expect(sampleArea(generator, { ...base, domainWarp: { frequency: 0.01, strength: 0 } }))
+      .toEqual(sampleArea(generator, base));
+  });
+
+  it('la continentalidad hunde el océano hasta -oceanDepth y deja la tierra intacta', () => {
+    const generator = createGenerator(1);
+    const continent = (threshold: number) => ({
+      ...base,
+      continentalness: { frequency: 0.005, threshold, coastWidth: 0.1, oceanDepth: 0.6 }
+    });
+
+    // Umbrales fuera del rango del ruido: todo océano o todo tierra
+    expect(new Set(sampleArea(generator, continent(2)))).toEqual(new Set([-0.6]));
+    const land = sampleArea(generator, continent(-2));
+    sampleArea(generator, base).forEach((height, i) => expect(land[i]).toBeCloseTo(height, 12));
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { LRUCache } from '../src/utils/LRUCache.js';
+
+describe('LRUCache', () => {
+  it('desaloja primero el menos usado recientemente', () => {
+    const cache = new LRUCache<string, number>(3);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+
+    // Leer 'a' la convierte en la más reciente
+    expect(cache.get('a')).toBe(1);
+    expect(cache.set('d', 4)).toEqual([['b', 2]]);
+    expect([...cache.keys()]).toEqual(['c', 'a', 'd']);
+  });
+
+  it('respeta el presupuesto según el tamaño de cada valor', () => {
+    const cache = new LRUCache<string, string>(10, value => value.length);
+    cache.set('a', 'xxxx');
+    cache.set('b', 'xxxx');
+
+    expect(cache.set('c', 'xxxxxxx')).toEqual([['a', 'xxxx'], ['b', 'xxxx']]);
+    expect(cache.usedSize).toBe(7);
+
+    // Más grande que todo el presupuesto: no se guarda ni desaloja nada
+    expect(cache.set('d', 'x'.repeat(11))).toEqual([['d', 'x'.repeat(11)]]);
+    expect(cache.has('c')).toBe(true);
+    expect(cache.has('d')).toBe(false);
+  });
+
+  it('reemplaza, elimina y redimensiona actualizando el tamaño usado', () => {
+    const cache = new LRUCache<string, string>(10, value => value.length);
+    cache.set('a', 'xxx');
+    cache.set('a', 'xxxxx');
+    cache.set('b', 'xx');
+    expect(cache.usedSize).toBe(7);
+
+    expect(cache.delete('a')).toBe('xxxxx');
+    expect(cache.usedSize).toBe(2);
+
+    cache.set('c', 'xxxx');
+    expect(cache.resize(5)).toEqual([['b', 'xx']]);
+    expect(cache.size).toBe(1);
+  });
+});
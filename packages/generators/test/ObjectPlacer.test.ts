@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { WorldGenerator } from '../src/WorldGenerator.js';
+import { ObjectPlacer } from '../src/generators/ObjectPlacer.js';
+import { ObjectInstance } from '../src/types.js';
+
+const config = { seed: 7, chunkSize: 32 };
+const area = 6;
+
+async function generateArea(order: Array<{ x: number; z: number }>): Promise<Map<string, ObjectInstance[]>> {
+  const generator = new WorldGenerator(config);
+  const objects = new Map<string, ObjectInstance[]>();
+  for (const coord of order) {
+    objects.set(`${coord.x},${coord.z}`, (await generator.generateChunk(coord)).objects);
+  }
+  return objects;
+}
+
+describe('ObjectPlacer', () => {
+  const rowMajor = Array.from({ length: area * area }, (_, i) => ({ x: i % area, z: Math.floor(i / area) }));
+
+  it('coloca los mismos objetos sea cual sea el orden de generación', async () => {
+    const forward = await generateArea(rowMajor);
+    const backward = await generateArea([...rowMajor].reverse());
+    // Columnas primero, con un generador por chunk
+    const columns = new Map<string, ObjectInstance[]>();
+    for (const { x, z } of [...rowMajor].map(({ x, z }) => ({ x: z, z: x }))) {
+      columns.set(`${x},${z}`, (await new WorldGenerator(config).generateChunk({ x, z })).objects);
+    }
+
+    for (const [key, objects] of forward) {
+      expect(backward.get(key)).toEqual(objects);
+      expect(columns.get(key)).toEqual(objects);
+    }
+  }, 30000);
+
+  it('respeta minSpacing y las exclusiones a través de los bordes', async () => {
+    const objects = [...(await generateArea(rowMajor)).values()].flat();
+    const rules = new WorldGenerator(config).getConfig().biomes.flatMap(biome => biome.objects ?? []);
+
+    const spacing = new Map<string, number>();
+    for (const rule of rules) {
+      spacing.set(rule.type, Math.max(spacing.get(rule.type) ?? 0, rule.minSpacing));
+    }
+    const exclusionRadius = (a: string, b: string) => Math.max(0, ...rules.flatMap(rule =>
+      (rule.exclusions ?? [])
+        .filter(e => (rule.type === a && e.type === b) || (rule.type === b && e.type === a))
+        .map(e => e.radius)
+    ));
+
+    expect(objects.length).toBeGreaterThan(0);
+    const violations: string[] = [];
+    for (let i = 0; i < objects.length; i++) {
+      for (let j = i + 1; j < objects.length; j++) {
+        const a = objects[i];
+        const b = objects[j];
+        const distance = Math.hypot(a.position.x - b.position.x, a.position.z - b.position.z);
+        const minimum = a.type === b.type ? spacing.get(a.type)! : exclusionRadius(a.type, b.type);
+        if (distance < minimum) {
+          violations.push(`${a.type}/${b.type} a ${distance.toFixed(2)} m (mínimo ${minimum})`);
+        }
+      }
+    }
+    expect(violations).toEqual([]);
+  }, 30000);
+
+  it('apoya los objetos del borde en el terreno de los vecinos', async () => {
+    // Heightmap de 3×3 chunks: el central tiene vecinos a todos los lados
+    const generator = new WorldGenerator(config);
+    const { chunkSize } = config;
+    const size = chunkSize * 3;
+    const world = new Float32Array(size * size);
+    for (let cz = 0; cz < 3; cz++) {
+      for (let cx = 0; cx < 3; cx++) {
+        const { heightmap } = await generator.generateChunk({ x: cx, z: cz });
+        for (let z = 0; z < chunkSize; z++) {
+          world.set(heightmap.subarray(z * chunkSize, (z + 1) * chunkSize), (cz * chunkSize + z) * size + cx * chunkSize);
+        }
+      }
+    }
+
+    const { objects } = await generator.generateChunk({ x: 1, z: 1 });
+    const { worldScale } = generator.getConfig();
+    const onEdge = objects.filter(({ position }) =>
+      Math.max(position.x, position.z) >= 2 * chunkSize - 1 || Math.min(position.x, position.z) < chunkSize + 1);
+    expect(onEdge.length).toBeGreaterThan(0);
+
+    for (const { position } of objects) {
+      const terrain = ObjectPlacer.sampleTerrain(world, size, position.x, position.z, worldScale);
+      expect(position.y).toBe(terrain.height * worldScale);
+    }
+  }, 30000);
+});
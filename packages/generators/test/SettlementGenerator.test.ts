@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { WorldGenerator } from '../src/WorldGenerator.js';
+import { ObjectPlacer } from '../src/generators/ObjectPlacer.js';
+import { GeneratorConfigOverrides } from '../src/types.js';
+
+// Un asentamiento por región de 64 m en cualquier bioma
+const config: GeneratorConfigOverrides = {
+  seed: 1,
+  chunkSize: 32,
+  settlementParams: { regionSize: 64, density: 1, allowedBiomes: [0, 1, 2, 3, 4, 5, 6, 7, 8], maxHeightRange: 100 }
+};
+
+function isBuilding(type: string): boolean {
+  return type === 'building' || type === 'house';
+}
+
+describe('SettlementGenerator', () => {
+  it('apoya los edificios del borde en el terreno de los vecinos', async () => {
+    // Sin erosión la altura solo depende de la posición: un chunk grande sirve de referencia
+    const world = await new WorldGenerator({ ...config, chunkSize: 256 }).generateChunk({ x: 0, z: 0 });
+
+    const generator = new WorldGenerator(config);
+    const { worldScale } = generator.getConfig();
+    let onEdge = 0;
+    for (let cz = 1; cz < 5; cz++) {
+      for (let cx = 1; cx < 5; cx++) {
+        const { objects } = await generator.generateChunk({ x: cx, z: cz });
+        for (const { type, position } of objects.filter(object => isBuilding(object.type))) {
+          const terrain = ObjectPlacer.sampleTerrain(world.heightmap, 256, position.x, position.z, worldScale);
+          expect(position.y, type).toBe(terrain.height * worldScale);
+          if (Math.max(position.x - cx * 32, position.z - cz * 32) >= 31) onEdge++;
+        }
+      }
+    }
+    expect(onEdge).toBeGreaterThan(0);
+  }, 30_000);
+
+  it('genera los mismos asentamientos y caminos en cualquier orden y tamaño de chunk', async () => {
+    const world = await new WorldGenerator({ ...config, chunkSize: 128 }).generateChunk({ x: 0, z: 0 });
+    const worldBuildings = world.objects.filter(object => isBuilding(object.type));
+    expect(worldBuildings.length).toBeGreaterThan(0);
+    expect(world.roadmask!.some(cell => cell > 0)).toBe(true);
+
+    // Dos generadores recorriendo los chunks en órdenes opuestos
+    const coords = Array.from({ length: 16 }, (_, i) => ({ x: i % 4, z: Math.floor(i / 4) }));
+    const forward = new WorldGenerator(config);
+    const backward = new WorldGenerator(config);
+    const chunks = [];
+    for (const coord of coords) chunks.push(await forward.generateChunk(coord));
+    for (const [i, coord] of [...coords.entries()].reverse()) {
+      const chunk = await backward.generateChunk(coord);
+      expect(chunk.roadmask).toEqual(chunks[i].roadmask);
+      expect(chunk.objects).toEqual(chunks[i].objects);
+    }
+
+    // Los chunks de 32 juntos dan la máscara de caminos y los edificios del de 128
+    const buildings = [];
+    for (const [i, { x, z }] of coords.entries()) {
+      const { roadmask, objects } = chunks[i];
+      for (let row = 0; row < 32; row++) {
+        const start = (z * 32 + row) * 128 + x * 32;
+        expect(roadmask!.subarray(row * 32, row * 32 + 32)).toEqual(world.roadmask!.subarray(start, start + 32));
+      }
+      buildings.push(...objects.filter(object => isBuilding(object.type)));
+    }
+    const byPosition = (a: { position: { x: number; z: number } }, b: { position: { x: number; z: number } }) =>
+      a.position.x - b.position.x || a.position.z - b.position.z;
+    expect(buildings.sort(byPosition)).toEqual([...worldBuildings].sort(byPosition));
+  }, 30_000);
+});
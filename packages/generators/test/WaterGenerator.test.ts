@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { WorldGenerator } from '../src/WorldGenerator.js';
+import { ErosionParams, WATER_NONE, WaterParams } from '../src/types.js';
+
+const waterParams: WaterParams = { riverThreshold: 12 };
+
+// Misma densidad de gotas en los dos tamaños de chunk (ver ErosionSimulator.test)
+function erosionParams(chunkSize: number): ErosionParams {
+  return { hydraulicIterations: Math.round(1.5 * chunkSize * chunkSize), thermalIterations: 4, regionSize: 16 };
+}
+
+/**
+ * Watermap de un bloque de 2×2 chunks de 16 montado en una rejilla de 32×32
+ */
+async function assembleWatermap(erosion: boolean): Promise<Uint8Array> {
+  const generator = new WorldGenerator({
+    seed: 3,
+    chunkSize: 16,
+    waterParams,
+    erosionParams: erosion ? erosionParams(16) : undefined
+  });
+  const assembled = new Uint8Array(32 * 32);
+  for (const [dx, dz] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+    const { watermap } = await generator.generateChunk({ x: dx, z: dz });
+    for (let z = 0; z < 16; z++) {
+      assembled.set(watermap!.subarray(z * 16, z * 16 + 16), (dz * 16 + z) * 32 + dx * 16);
+    }
+  }
+  return assembled;
+}
+
+describe('WaterGenerator', () => {
+  for (const erosion of [false, true]) {
+    it(`los chunks vecinos encajan en el borde común ${erosion ? 'con' : 'sin'} erosión`, async () => {
+      const large = await new WorldGenerator({
+        seed: 3,
+        chunkSize: 32,
+        waterParams,
+        erosionParams: erosion ? erosionParams(32) : undefined
+      }).generateChunk({ x: 0, z: 0 });
+      const assembled = await assembleWatermap(erosion);
+
+      expect(assembled).toEqual(large.watermap);
+
+      // Tiene que haber agua a los dos lados de algún borde para que la comparación signifique algo
+      const crossings = Array.from({ length: 32 }, (_, i) => i).filter(i =>
+        (assembled[i * 32 + 15] !== WATER_NONE && assembled[i * 32 + 16] !== WATER_NONE) ||
+        (assembled[15 * 32 + i] !== WATER_NONE && assembled[16 * 32 + i] !== WATER_NONE)
+      );
+      expect(crossings.length).toBeGreaterThan(0);
+    }, 30_000);
+  }
+});
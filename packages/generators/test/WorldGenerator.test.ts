@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { WorldGenerator } from '../src/WorldGenerator.js';
+import { objectStage } from '../src/pipeline/stages.js';
+import { GeneratorStage } from '../src/types.js';
+
+// Etapa que solo anota su nombre y la semilla que recibe
+function probe(name: string, log: string[], fields: Partial<GeneratorStage> = {}): GeneratorStage {
+  return {
+    name,
+    inputs: [],
+    outputs: [],
+    seedScope: 'global',
+    run: () => { log.push(name); },
+    ...fields
+  };
+}
+
+function stageNames(generator: WorldGenerator): string[] {
+  return generator.getStages().map(stage => stage.name);
+}
+
+describe('WorldGenerator: pipeline de etapas', () => {
+  const defaults = ['height', 'erosion', 'water', 'density', 'biomes', 'settlements', 'objects'];
+
+  it('inserta etapas al final, antes o después de otra', () => {
+    const generator = new WorldGenerator({ seed: 1, chunkSize: 16 });
+    expect(stageNames(generator)).toEqual(defaults);
+
+    const log: string[] = [];
+    generator.addStage(probe('last', log));
+    generator.addStage(probe('first', log), { before: 'height' });
+    generator.addStage(probe('afterBiomes', log), { after: 'biomes' });
+
+    expect(stageNames(generator)).toEqual([
+      'first', 'height', 'erosion', 'water', 'density', 'biomes', 'afterBiomes', 'settlements', 'objects', 'last'
+    ]);
+    expect(() => generator.addStage(probe('last', log))).toThrow('Stage "last" is already registered');
+    expect(() => generator.addStage(probe('other', log), { after: 'missing' })).toThrow('Unknown stage "missing"');
+  });
+
+  it('sustituye y quita etapas sin admitir nombres repetidos', () => {
+    const generator = new WorldGenerator({ seed: 1, chunkSize: 16 });
+    const log: string[] = [];
+
+    generator.replaceStage('density', probe('density', log));
+    generator.replaceStage('erosion', probe('smoothing', log));
+    expect(stageNames(generator)).toEqual(['height', 'smoothing', 'water', 'density', 'biomes', 'settlements', 'objects']);
+
+    expect(() => generator.replaceStage('smoothing', probe('objects', log))).toThrow('Stage "objects" is already registered');
+    expect(() => generator.replaceStage('missing', probe('missing', log))).toThrow('Unknown stage "missing"');
+    expect(stageNames(generator)).toContain('smoothing');
+
+    generator.removeStage('smoothing');
+    expect(stageNames(generator)).not.toContain('smoothing');
+    expect(() => generator.removeStage('smoothing')).toThrow('Unknown stage "smoothing"');
+  });
+
+  it('ejecuta solo las etapas activas, con LOD solo las que lo admiten', async () => {
+    const generator = new WorldGenerator({ seed: 1, chunkSize: 16 });
+    const log: string[] = [];
+    generator.addStage(probe('always', log));
+    generator.addStage(probe('disabled', log, { enabled: () => false }));
+    generator.addStage(probe('lod', log, { supportsLod: true }));
+
+    await generator.generateChunk({ x: 0, z: 0 });
+    await generator.generateChunk({ x: 0, z: 0 }, undefined, { lod: 1 });
+
+    expect(log).toEqual(['always', 'lod', 'lod']);
+  });
+
+  it('comprueba que alguna etapa anterior produce cada entrada', async () => {
+    const generator = new WorldGenerator({ seed: 1, chunkSize: 16 });
+    generator.removeStage('height');
+
+    await expect(generator.generateChunk({ x: 0, z: 0 })).rejects.toThrow(
+      'Stage "biomes" requires "heightmap", which no earlier stage produces'
+    );
+
+    // Una etapa deshabilitada no cuenta como productora
+    const log: string[] = [];
+    const other = new WorldGenerator({ seed: 1, chunkSize: 16 });
+    other.addStage(probe('needsWater', log, { inputs: ['watermap'] }));
+    await expect(other.generateChunk({ x: 0, z: 0 })).rejects.toThrow('Stage "needsWater" requires "watermap"');
+  });
+
+  it('siembra cada etapa con su nombre', async () => {
+    const seeds = new Map<string, number>();
+    const record = (name: string): GeneratorStage => ({
+      ...probe(name, []),
+      run: context => { seeds.set(name, context.seed); }
+    });
+    const generator = new WorldGenerator({ seed: 'semilla', chunkSize: 16 });
+    generator.addStage(record('a'));
+    generator.addStage(record('b'));
+    await generator.generateChunk({ x: 0, z: 0 });
+    expect(seeds.get('a')).not.toBe(seeds.get('b'));
+
+    // Los objetos salen de la semilla de su etapa: otro nombre, otros objetos
+    const reference = await new WorldGenerator({ seed: 'semilla', chunkSize: 32 }).generateChunk({ x: 0, z: 0 });
+    const copy = new WorldGenerator({ seed: 'semilla', chunkSize: 32 });
+    copy.replaceStage('objects', { ...objectStage });
+    const renamed = new WorldGenerator({ seed: 'semilla', chunkSize: 32 });
+    renamed.replaceStage('objects', { ...objectStage, name: 'vegetation' });
+
+    expect(reference.objects.length).toBeGreaterThan(0);
+    expect((await copy.generateChunk({ x: 0, z: 0 })).objects).toEqual(reference.objects);
+    expect((await renamed.generateChunk({ x: 0, z: 0 })).objects).not.toEqual(reference.objects);
+  });
+});
+
+describe('WorldGenerator: niveles de detalle', () => {
+  it('comparte el borde entre vecinos de distinto nivel y con lod 0', async () => {
+    const generator = new WorldGenerator({ seed: 3, chunkSize: 16 });
+    const fine = await generator.generateChunk({ x: 0, z: 0 }, undefined, { lod: 1 });
+    const coarse = await generator.generateChunk({ x: 1, z: 0 }, undefined, { lod: 2 });
+    const below = await generator.generateChunk({ x: 0, z: 1 }, undefined, { lod: 3 });
+    const full = await generator.generateChunk({ x: 1, z: 0 });
+    const fullBelow = await generator.generateChunk({ x: 0, z: 1 });
+
+    // Borde x = 16 del mundo: última columna de lod 1 (paso 2), primera de lod 2 (paso 4)
+    for (let z = 0; z <= 16; z += 4) {
+      const edge = fine.heightmap[(z / 2) * 9 + 8];
+      expect(coarse.heightmap[(z / 4) * 5]).toBe(edge);
+      expect(coarse.biomemap[(z / 4) * 5]).toBe(fine.biomemap[(z / 2) * 9 + 8]);
+      if (z < 16) expect(full.heightmap[z * 16]).toBe(edge);
+    }
+
+    // Borde z = 16 del mundo: última fila de lod 1, primera de lod 3 (paso 8)
+    for (let x = 0; x <= 16; x += 8) {
+      const edge = fine.heightmap[8 * 9 + x / 2];
+      expect(below.heightmap[x / 8]).toBe(edge);
+      if (x < 16) expect(fullBelow.heightmap[x]).toBe(edge);
+    }
+  });
+});
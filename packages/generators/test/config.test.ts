@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { WorldGenerator } from '../src/WorldGenerator.js';
+import { mergeConfig } from '../src/config/merge.js';
+import { ConfigValidationError, validateConfig } from '../src/config/validation.js';
+import { diffConfigs, hashGenerationConfig } from '../src/config/diff.js';
+import { CONFIG_PRESETS, ConfigPresetName, createPresetConfig } from '../src/config/presets.js';
+
+function defaultConfig() {
+  return new WorldGenerator({ seed: 1, chunkSize: 16 }).getConfig();
+}
+
+describe('mergeConfig', () => {
+  it('mezcla los objetos a cualquier profundidad y sustituye los arrays', () => {
+    const base = {
+      seed: 1,
+      heightmapParams: { frequency: 0.01, domainWarp: { frequency: 0.003, strength: 40, octaves: 2 } },
+      erosionParams: { hydraulicIterations: 100, thermalIterations: 2 },
+      biomeLookupTable: [[0, 1], [2, 3]]
+    };
+
+    const merged = mergeConfig(base, {
+      heightmapParams: { domainWarp: { strength: 5 } },
+      erosionParams: undefined,
+      biomeLookupTable: [[4]]
+    });
+
+    expect(merged).toEqual({
+      seed: 1,
+      heightmapParams: { frequency: 0.01, domainWarp: { frequency: 0.003, strength: 5, octaves: 2 } },
+      erosionParams: undefined,
+      biomeLookupTable: [[4]]
+    });
+    // Sin tocar la config original
+    expect(base.heightmapParams.domainWarp.strength).toBe(40);
+    expect(base.erosionParams).toBeDefined();
+  });
+
+  it('aplica overrides anidados en updateConfig', () => {
+    const generator = new WorldGenerator({
+      seed: 1,
+      chunkSize: 16,
+      heightmapParams: { domainWarp: { frequency: 0.003, strength: 40 } }
+    });
+
+    const diff = generator.updateConfig({ heightmapParams: { domainWarp: { strength: 10 } } });
+
+    expect(generator.getConfig().heightmapParams.domainWarp).toEqual({ frequency: 0.003, strength: 10 });
+    expect(generator.getConfig().heightmapParams.octaves).toBe(defaultConfig().heightmapParams.octaves);
+    expect(diff.changes).toEqual([{ path: 'heightmapParams.domainWarp.strength', before: 40, after: 10 }]);
+  });
+});
+
+describe('validateConfig', () => {
+  it('devuelve todos los problemas con su ruta', () => {
+    const config = defaultConfig();
+    const issues = validateConfig({
+      ...config,
+      chunkSize: 20,
+      heightmapParams: { ...config.heightmapParams, octaves: 0, domainWarp: { frequency: -1, strength: 1 } },
+      biomeLookupTable: [[0, 99]]
+    });
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      'chunkSize',
+      'heightmapParams.octaves',
+      'heightmapParams.domainWarp.frequency',
+      'biomeLookupTable[0][1]'
+    ]);
+    expect(validateConfig(config)).toEqual([]);
+  });
+
+  it('rechaza configs inválidas en el constructor y en updateConfig', () => {
+    expect(() => new WorldGenerator({ seed: '' })).toThrow(ConfigValidationError);
+
+    const generator = new WorldGenerator({ seed: 1, chunkSize: 16 });
+    const before = generator.getConfig();
+    expect(() => generator.updateConfig({ heightmapParams: { domainWarp: { strength: 5 } } }))
+      .toThrow('heightmapParams.domainWarp.frequency');
+    expect(generator.getConfig()).toEqual(before);
+  });
+});
+
+describe('diffConfigs', () => {
+  it('marca las capas desde la primera afectada', () => {
+    const before = defaultConfig();
+    const water = diffConfigs(before, mergeConfig(before, { waterParams: { riverThreshold: 40 } }));
+    expect(water.layers[0]).toBe('watermap');
+    expect(water.layers).not.toContain('heightmap');
+    expect(water.regenerate).toBe(true);
+
+    const objects = before.biomes.map(biome => ({ ...biome, objectDensity: 0.9 }));
+    expect(diffConfigs(before, { ...before, biomes: objects }).layers).toEqual(['objects']);
+  });
+
+  it('no regenera por cambios de colores ni nombres', () => {
+    const before = defaultConfig();
+    const biomes = before.biomes.map(biome => ({ ...biome, name: `${biome.name}!`, color: { r: 1, g: 2, b: 3 } }));
+    const after = { ...before, biomes };
+
+    const diff = diffConfigs(before, after);
+    expect(diff.changes.length).toBeGreaterThan(0);
+    expect(diff).toMatchObject({ layers: [], regenerate: false });
+    expect(hashGenerationConfig(after)).toBe(hashGenerationConfig(before));
+    expect(hashGenerationConfig({ ...before, seed: 2 })).not.toBe(hashGenerationConfig(before));
+  });
+});
+
+describe('presets', () => {
+  for (const name of Object.keys(CONFIG_PRESETS) as ConfigPresetName[]) {
+    it(`el preset ${name} es una config válida`, () => {
+      expect(() => new WorldGenerator(createPresetConfig(name, { seed: 3 }))).not.toThrow();
+    });
+  }
+
+  it('pone los overrides de la aplicación encima del preset', () => {
+    const config = new WorldGenerator(createPresetConfig('alpine', {
+      seed: 3,
+      heightmapParams: { domainWarp: { strength: 10 } }
+    })).getConfig();
+
+    expect(config.seed).toBe(3);
+    expect(config.heightmapParams).toMatchObject({
+      noiseMode: 'ridged',
+      frequency: 0.006,
+      domainWarp: { frequency: 0.003, strength: 10 }
+    });
+    expect(() => createPresetConfig('missing' as ConfigPresetName)).toThrow('Unknown config preset "missing"');
+  });
+});
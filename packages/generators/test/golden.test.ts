@@ -0,0 +1,14 @@
+import { readFile } from 'fs/promises';
+import { describe, expect, it } from 'vitest';
+import { buildGoldenCorpus, diffGoldenCorpus, GoldenCorpus } from '../src/serialization/GoldenCorpus.js';
+
+// Si falla y el cambio es intencionado: subir GENERATORS_VERSION y
+// regenerar con `pnpm run build && pnpm run golden:update`
+describe('corpus golden', () => {
+  it('los chunks de referencia no cambian', async () => {
+    const corpusPath = new URL('../golden/corpus.json', import.meta.url);
+    const expected = JSON.parse(await readFile(corpusPath, 'utf8')) as GoldenCorpus;
+
+    expect(diffGoldenCorpus(expected, await buildGoldenCorpus())).toEqual([]);
+  }, 60_000);
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { generateHash, hash32 } from '../src/utils/hash.js';
+import { AVALANCHE_TOLERANCE, measureHash } from '../src/utils/hashStats.js';
+
+describe('hash de semillas', () => {
+  it('hash32 cumple los umbrales de avalancha y colisiones', () => {
+    const stats = measureHash(hash32);
+
+    expect(stats.avalancheBias).toBeLessThanOrEqual(AVALANCHE_TOLERANCE);
+    expect(stats.ambiguous).toBe(false);
+    expect(stats.passed).toBe(true);
+  });
+
+  it('generateHash (legacy) no los cumple', () => {
+    const stats = measureHash(generateHash);
+
+    expect(stats.ambiguous).toBe(true);
+    expect(stats.passed).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { crc32, deflateSync, inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { decodePNG, encodePNG, PNGImage } from '../src/serialization/png.js';
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function chunk(type: string, body: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(12 + body.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, body.length);
+  bytes.set(Buffer.from(type, 'latin1'), 4);
+  bytes.set(body, 8);
+  view.setUint32(8 + body.length, crc32(bytes.subarray(4, 8 + body.length)));
+  return bytes;
+}
+
+/**
+ * PNG montado a mano con el deflate de zlib (códigos dinámicos, no los fijos
+ * del codificador); `rows` ya lleva el byte de filtro de cada fila
+ */
+function zlibPNG(width: number, height: number, bitDepth: number, colorType: number, rows: number[], palette?: number[]): Uint8Array {
+  const header = new Uint8Array(13);
+  new DataView(header.buffer).setUint32(0, width);
+  new DataView(header.buffer).setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = colorType;
+  return Buffer.concat([
+    new Uint8Array(SIGNATURE),
+    chunk('IHDR', header),
+    ...(palette ? [chunk('PLTE', new Uint8Array(palette))] : []),
+    chunk('IDAT', deflateSync(new Uint8Array(rows), { level: 9 })),
+    chunk('IEND', new Uint8Array(0))
+  ]);
+}
+
+/**
+ * Datos del IDAT de un PNG (el codificador escribe uno solo)
+ */
+function idat(png: Uint8Array): Uint8Array {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  for (let offset = SIGNATURE.length; offset < png.length;) {
+    const length = view.getUint32(offset);
+    if (Buffer.from(png.subarray(offset + 4, offset + 8)).toString('latin1') === 'IDAT') {
+      return png.subarray(offset + 8, offset + 8 + length);
+    }
+    offset += 12 + length;
+  }
+  throw new Error('no IDAT');
+}
+
+// Ruido suave con repeticiones, para que actúen tanto los filtros como LZ77
+function sampleImage(width: number, height: number, channels: PNGImage['channels'], bitDepth: 8 | 16): PNGImage {
+  const max = bitDepth === 16 ? 65535 : 255;
+  const data = bitDepth === 16 ? new Uint16Array(width * height * channels) : new Uint8Array(width * height * channels);
+  for (let i = 0; i < data.length; i++) {
+    const pixel = Math.floor(i / channels);
+    const x = pixel % width;
+    const y = Math.floor(pixel / width);
+    data[i] = Math.round(((Math.sin(x * 0.3 + (i % channels)) + Math.cos(y * 0.2)) * 0.25 + 0.5) * max);
+  }
+  return { width, height, channels, bitDepth, data };
+}
+
+describe('png', () => {
+  const formats: Array<[string, PNGImage['channels'], 8 | 16]> = [
+    ['gris 8 bits', 1, 8],
+    ['gris 16 bits', 1, 16],
+    ['RGB 8 bits', 3, 8],
+    ['RGBA 8 bits', 4, 8]
+  ];
+
+  for (const [name, channels, bitDepth] of formats) {
+    it(`ida y vuelta en ${name}`, () => {
+      const image = sampleImage(37, 23, channels, bitDepth);
+      const png = encodePNG(image);
+
+      expect(decodePNG(png)).toEqual(image);
+
+      // El zlib de Node lee el IDAT del codificador: filas de 1 byte de filtro + muestras
+      const inflated = inflateSync(idat(png));
+      const stride = 1 + image.width * channels * (bitDepth / 8);
+      expect(inflated.length).toBe(image.height * stride);
+      for (let y = 0; y < image.height; y++) {
+        expect(inflated[y * stride]).toBeLessThanOrEqual(4);
+      }
+    });
+  }
+
+  it('decodifica un PNG comprimido por zlib con filtros', () => {
+    // Gris 8 bits 3×2: fila 0 con Sub, fila 1 con Up
+    const png = zlibPNG(3, 2, 8, 0, [1, 10, 5, 5, 2, 1, 2, 3]);
+    expect(decodePNG(png)).toEqual({
+      width: 3,
+      height: 2,
+      channels: 1,
+      bitDepth: 8,
+      data: new Uint8Array([10, 15, 20, 11, 17, 23])
+    });
+  });
+
+  it('expande las paletas a RGB', () => {
+    // Paleta de 2 bits: cuatro índices por byte
+    const palette = [255, 0, 0, 0, 255, 0, 0, 0, 255, 9, 9, 9];
+    const png = zlibPNG(5, 1, 2, 3, [0, 0b00011011, 0b10000000], palette);
+    expect(decodePNG(png)).toEqual({
+      width: 5,
+      height: 1,
+      channels: 3,
+      bitDepth: 8,
+      data: new Uint8Array([255, 0, 0, 0, 255, 0, 0, 0, 255, 9, 9, 9, 0, 0, 255])
+    });
+  });
+
+  it('expande los grises de 1 y 4 bits a 8 bits', () => {
+    const oneBit = zlibPNG(10, 1, 1, 0, [0, 0b10110000, 0b01000000]);
+    expect(decodePNG(oneBit).data).toEqual(new Uint8Array([255, 0, 255, 255, 0, 0, 0, 0, 0, 255]));
+
+    const fourBit = zlibPNG(3, 1, 4, 0, [0, 0x0f, 0x50]);
+    expect(decodePNG(fourBit).data).toEqual(new Uint8Array([0, 255, 85]));
+  });
+
+  it('rechaza datos que no son PNG o con CRC incorrecto', () => {
+    expect(() => decodePNG(new Uint8Array(16))).toThrow('Not a PNG file');
+    const png = encodePNG(sampleImage(4, 4, 1, 8));
+    png[SIGNATURE.length + 10] ^= 1; // dentro del IHDR
+    expect(() => decodePNG(png)).toThrow('PNG chunk IHDR has a bad CRC');
+  });
+});
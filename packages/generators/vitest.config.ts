@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Los paquetes del workspace se resuelven a su código fuente: los tests no
+// dependen de haber compilado antes su dist/
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@worldlab/core': fileURLToPath(new URL('../core/src/index.ts', import.meta.url)),
+      '@worldlab/events': fileURLToPath(new URL('../events/src/index.ts', import.meta.url))
+    }
+  }
+});
@@ -98,12 +98,12 @@ export class PhysicsWorld {
     );
 
     if (options.rotation) {
-      rigidBodyDesc.setRotation({
-        x: options.rotation.x,
-        y: options.rotation.y,
-        z: options.rotation.z,
-        w: options.rotation.w
-      });
+      // Rapier expects a unit quaternion; serialized rotations may drift slightly
+      const { x, y, z, w } = options.rotation;
+      const length = Math.hypot(x, y, z, w);
+      if (length > 0) {
+        rigidBodyDesc.setRotation({ x: x / length, y: y / length, z: z / length, w: w / length });
+      }
     }
 
     const rigidBody = this.world.createRigidBody(rigidBodyDesc);